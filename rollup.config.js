@@ -33,6 +33,17 @@ function getAuthorEntries() {
 
 const authorEntries = getAuthorEntries();
 
+// The codegen entry imports runtime code through src/index.ts, which is loaded as
+// the published main entry instead of being bundled a second time
+const mainEntryAsPackage = {
+  name: 'main-entry-as-package',
+  resolveId(source, importer) {
+    const fromCodegen = importer && path.dirname(importer).endsWith(`${path.sep}codegen`);
+    return fromCodegen && /^\.\.\/index(\.(ts|js))?$/.test(source) ? { id: packageJson.name, external: true } : null;
+  },
+};
+const codegenExternal = ['react', 'react-dom', 'fs/promises', ...Object.keys(packageJson.dependencies)];
+
 export default [
   // Main package build
   {
@@ -90,12 +101,45 @@ export default [
     ],
     external: ['react', 'react-dom'],
   }] : []),
+  // Build-time codegen entry (@mexty/block/codegen)
+  {
+    input: { 'codegen/index': 'src/codegen/index.ts' },
+    output: [
+      {
+        dir: 'dist',
+        format: 'cjs',
+        sourcemap: true,
+        entryFileNames: '[name].js',
+      },
+      {
+        dir: 'dist',
+        format: 'esm',
+        sourcemap: true,
+        entryFileNames: '[name].esm.js',
+      },
+    ],
+    plugins: [
+      mainEntryAsPackage,
+      resolve({ preferBuiltins: true }),
+      commonjs(),
+      json(),
+      typescript({ tsconfig: './tsconfig.json' }),
+    ],
+    external: codegenExternal,
+  },
   // Type definitions for main package
   {
     input: 'dist/index.d.ts',
     output: [{ file: 'dist/index.d.ts', format: 'esm' }],
     plugins: [dts()],
   },
+  // Type definitions for the codegen entry
+  {
+    input: 'dist/codegen/index.d.ts',
+    output: [{ file: 'dist/codegen/index.d.ts', format: 'esm' }],
+    plugins: [mainEntryAsPackage, dts()],
+    external: codegenExternal,
+  },
   // Type definitions for author entries (if any exist)
   ...(Object.keys(authorEntries).length > 0 ? [{
     input: Object.fromEntries(
@@ -0,0 +1,228 @@
+import type { BlockRegistry, AuthorNamespaceRegistry, BlockRegistryEntry } from '../utils/blockRegistry';
+import type { BlockMetadata } from '../utils/federationLoader';
+import { createLogger } from '../index';
+import {
+  GENERATED_HEADER,
+  createSchemaLookup,
+  renderTypedAuthorEntry,
+  renderTypedNamedExports,
+  resolveExportNames
+} from './typeGeneration';
+import type { BlockTypeSource } from './typeGeneration';
+
+const logger = createLogger('codegen');
+
+export const EXPORTS_MARKER = 'MEXT_CLI_EXPORTS_MARKER';
+
+const MARKER_BLOCK = `// This comment is used by mexty to identify where to insert new exports\n// ${EXPORTS_MARKER}\n`;
+
+// Author names become directory names under authors/
+const SAFE_AUTHOR = /^[A-Za-z0-9_][A-Za-z0-9_.-]*$/;
+
+/**
+ * The file operations the generator needs. Defaults to Node's `fs/promises`.
+ */
+export interface GeneratorFileSystem {
+  // Resolves to null when the file doesn't exist
+  readFile(path: string): Promise<string | null>;
+  writeFile(path: string, contents: string): Promise<void>;
+  // Recursive; must not fail when the directory exists
+  mkdir(path: string): Promise<void>;
+  // Names of subdirectories; empty when the directory doesn't exist
+  listDirectories(path: string): Promise<string[]>;
+  removeFile(path: string): Promise<void>;
+}
+
+export interface GenerateExportsOptions {
+  registry: BlockRegistry;
+  authorRegistry?: AuthorNamespaceRegistry;
+  // The package's src directory: namedExports.ts and authors/<author>/index.ts are written here
+  outDir: string;
+  // Fetch props schemas and render typed wrappers (default), or plain untyped ones
+  types?: boolean;
+  getMetadata?: (blockId: string) => Promise<Pick<BlockMetadata, 'blockProps'>>;
+  // Delete generated entries of authors no longer in the registry (default true)
+  prune?: boolean;
+  fs?: GeneratorFileSystem;
+}
+
+export interface GenerateExportsResult {
+  written: string[];
+  unchanged: string[];
+  removed: string[];
+  // Components exported under a different name than their component name
+  renamed: Array<{ author?: string; componentName: string; exportName: string }>;
+}
+
+async function createNodeFileSystem(): Promise<GeneratorFileSystem> {
+  // Kept out of the browser bundle: only resolved when the generator runs under Node
+  const specifier = 'fs/promises';
+  const fs: any = await import(/* webpackIgnore: true */ specifier);
+
+  return {
+    readFile: async (path) => {
+      try {
+        return await fs.readFile(path, 'utf8');
+      } catch (error: any) {
+        if (error?.code === 'ENOENT') return null;
+        throw error;
+      }
+    },
+    writeFile: (path, contents) => fs.writeFile(path, contents, 'utf8'),
+    mkdir: async (path) => {
+      await fs.mkdir(path, { recursive: true });
+    },
+    listDirectories: async (path) => {
+      try {
+        const entries = await fs.readdir(path, { withFileTypes: true });
+        return entries.filter((entry: any) => entry.isDirectory()).map((entry: any) => entry.name);
+      } catch (error: any) {
+        if (error?.code === 'ENOENT') return [];
+        throw error;
+      }
+    },
+    removeFile: (path) => fs.unlink(path)
+  };
+}
+
+function joinPath(...parts: string[]): string {
+  return parts
+    .map((part, index) => (index === 0 ? part.replace(/[\\/]+$/, '') : part.replace(/^[\\/]+|[\\/]+$/g, '')))
+    .filter(Boolean)
+    .join('/');
+}
+
+/**
+ * Everything after the marker line in an existing file. Exports added there by
+ * hand survive regeneration.
+ */
+function getPreservedTail(existing: string | null): string {
+  if (!existing) return '';
+  const index = existing.indexOf(EXPORTS_MARKER);
+  if (index === -1) return '';
+  const lineEnd = existing.indexOf('\n', index);
+  return lineEnd === -1 ? '' : existing.slice(lineEnd + 1).replace(/\r\n/g, '\n');
+}
+
+/**
+ * Value names a module exports, read from its source
+ */
+function getExportedNames(source: string | null): string[] {
+  if (!source) return [];
+  const names: string[] = [];
+
+  const declaration = /export\s+(?:declare\s+)?(?:const|let|var|function\*?|class|enum|async\s+function)\s+([A-Za-z_$][\w$]*)/g;
+  let match: RegExpExecArray | null;
+  while ((match = declaration.exec(source))) names.push(match[1]);
+
+  const list = /export\s*\{([^}]*)\}/g;
+  while ((match = list.exec(source))) {
+    match[1].split(',').forEach(item => {
+      const parts = item.trim().split(/\s+as\s+/);
+      const name = (parts[1] || parts[0]).trim();
+      if (name && name !== 'default' && !/^type\s/.test(item.trim())) names.push(name);
+    });
+  }
+
+  return names;
+}
+
+/**
+ * Keep the file's existing line endings so regenerating doesn't touch every line
+ */
+function withLineEndings(contents: string, existing: string | null): string {
+  return existing && existing.includes('\r\n') ? contents.replace(/\n/g, '\r\n') : contents;
+}
+
+/**
+ * Build time: render namedExports.ts and one authors/<author>/index.ts per author
+ * from the registries. Output is sorted, so the same registry always produces
+ * the same files, and files whose contents didn't change aren't rewritten.
+ * Component names that aren't valid identifiers, clash with a reserved word, the
+ * main entry's own exports or each other get a deterministic unique name.
+ */
+export async function generateExports(options: GenerateExportsOptions): Promise<GenerateExportsResult> {
+  const fs = options.fs || await createNodeFileSystem();
+  const typed = options.types !== false;
+  const getSchema = createSchemaLookup(options.getMetadata);
+  const result: GenerateExportsResult = { written: [], unchanged: [], removed: [], renamed: [] };
+
+  const toSources = async (
+    entries: { [componentName: string]: BlockRegistryEntry },
+    taken: string[],
+    author?: string
+  ): Promise<BlockTypeSource[]> => {
+    const exportNames = resolveExportNames(Object.keys(entries), taken);
+    return Promise.all(Object.keys(entries).map(async componentName => {
+      const exportName = exportNames.get(componentName) as string;
+      if (exportName !== componentName) {
+        result.renamed.push({ author, componentName, exportName });
+        logger.warn('Component exported under a different name', { author, componentName, exportName });
+      }
+      return {
+        componentName,
+        exportName,
+        blockId: entries[componentName].blockId,
+        description: entries[componentName].description,
+        schema: typed ? await getSchema(entries[componentName].blockId) : undefined
+      };
+    }));
+  };
+
+  const writeIfChanged = async (path: string, render: (tail: string) => string) => {
+    const existing = await fs.readFile(path);
+    const contents = withLineEndings(render(getPreservedTail(existing)), existing);
+    if (existing === contents) {
+      result.unchanged.push(path);
+      return;
+    }
+    await fs.writeFile(path, contents);
+    result.written.push(path);
+  };
+
+  const withMarker = (generated: string, tail: string) => `${generated}\n${MARKER_BLOCK}${tail}`;
+
+  // `export * from './namedExports'` silently drops names the main entry exports itself
+  const namedPath = joinPath(options.outDir, 'namedExports.ts');
+  const mainExports = getExportedNames(await fs.readFile(joinPath(options.outDir, 'index.ts')));
+  const namedTail = getPreservedTail(await fs.readFile(namedPath));
+  const namedSources = await toSources(options.registry, [...mainExports, ...getExportedNames(namedTail)]);
+  await writeIfChanged(namedPath, tail => withMarker(renderTypedNamedExports(namedSources, { typed }), tail));
+
+  const authorsDir = joinPath(options.outDir, 'authors');
+  const authorRegistry = options.authorRegistry || {};
+  const authors = Object.keys(authorRegistry).sort().filter(author => {
+    if (SAFE_AUTHOR.test(author)) return true;
+    logger.warn('Skipping author whose name is not a safe directory name', { author });
+    return false;
+  });
+
+  for (const author of authors) {
+    const entryPath = joinPath(authorsDir, author, 'index.ts');
+    const tail = getPreservedTail(await fs.readFile(entryPath));
+    const sources = await toSources(authorRegistry[author], getExportedNames(tail), author);
+    await fs.mkdir(joinPath(authorsDir, author));
+    await writeIfChanged(entryPath, current => withMarker(renderTypedAuthorEntry(author, sources, { typed }), current));
+  }
+
+  if (options.prune !== false) {
+    for (const directory of await fs.listDirectories(authorsDir)) {
+      if (authors.includes(directory)) continue;
+      const entryPath = joinPath(authorsDir, directory, 'index.ts');
+      const existing = await fs.readFile(entryPath);
+      // Only files this generator wrote; anything else under authors/ is left alone
+      if (existing && existing.replace(/\r\n/g, '\n').startsWith(GENERATED_HEADER)) {
+        await fs.removeFile(entryPath);
+        result.removed.push(entryPath);
+      }
+    }
+  }
+
+  logger.info('Generated exports', {
+    written: result.written.length,
+    unchanged: result.unchanged.length,
+    removed: result.removed.length
+  });
+
+  return result;
+}
@@ -0,0 +1,22 @@
+/**
+ * Build-time entry, `@mexty/block/codegen`: generates typed wrappers and entry files
+ * from the registry. Kept out of the browser entry since it's only needed at build
+ * time and reaches for Node's `fs/promises`.
+ */
+
+// Type generation
+export {
+  generateBlockTypes,
+  generatePropsInterface,
+  renderTypedNamedExports,
+  renderTypedAuthorEntry,
+  renderPropsDeclarations,
+  resolveExportNames,
+  schemaToType,
+  toTypeName
+} from './typeGeneration';
+export type { BlockTypeSource, GenerateBlockTypesOptions, GeneratedBlockTypes, RenderEntryOptions } from './typeGeneration';
+
+// Registry sync
+export { generateExports, EXPORTS_MARKER } from './exportsGenerator';
+export type { GenerateExportsOptions, GenerateExportsResult, GeneratorFileSystem } from './exportsGenerator';
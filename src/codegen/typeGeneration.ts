@@ -0,0 +1,341 @@
+// Runtime imports go through the main entry, so codegen uses the configured loader and logger
+import { createLogger, federationLoader } from '../index';
+import type { BlockMetadata } from '../utils/federationLoader';
+import type { BlockRegistry, AuthorNamespaceRegistry } from '../utils/blockRegistry';
+import type { BlockPropsSchema, PropSchema, PropType } from '../utils/propsValidation';
+
+const logger = createLogger('codegen');
+
+const IDENTIFIER = /^[A-Za-z_$][A-Za-z0-9_$]*$/;
+
+export const GENERATED_HEADER = `// Auto-generated named exports for mext-block components
+// This file is automatically generated by mexty sync command
+// Do not edit manually - changes will be overwritten
+`;
+
+/**
+ * A block to generate a typed wrapper for
+ */
+export interface BlockTypeSource {
+  componentName: string;
+  // Identifier the wrapper is exported as (defaults to a PascalCase form of componentName)
+  exportName?: string;
+  blockId?: string;
+  description?: string;
+  schema?: BlockPropsSchema;
+}
+
+export interface GenerateBlockTypesOptions {
+  registry: BlockRegistry;
+  authorRegistry?: AuthorNamespaceRegistry;
+  // Where each block's props schema comes from; defaults to the block metadata endpoint
+  getMetadata?: (blockId: string) => Promise<Pick<BlockMetadata, 'blockProps'>>;
+}
+
+/**
+ * Generated sources: `namedExports` for src/namedExports.ts, `authors[author]` for
+ * src/authors/<author>/index.ts and `declarations` for a standalone .d.ts holding
+ * the props interfaces of both, with author interfaces named after their author
+ * (`JohnsmithChartProps`)
+ */
+export interface GeneratedBlockTypes {
+  namedExports: string;
+  authors: { [author: string]: string };
+  declarations: string;
+}
+
+/**
+ * PascalCase identifier for a component name ('my-chart' -> 'MyChart')
+ */
+export function toTypeName(name: string): string {
+  const pascal = name
+    .split(/[^A-Za-z0-9_$]+/)
+    .filter(Boolean)
+    .map(part => part.charAt(0).toUpperCase() + part.slice(1))
+    .join('');
+  if (!pascal) return '_';
+  return /^[0-9]/.test(pascal) ? `_${pascal}` : pascal;
+}
+
+const RESERVED_WORDS = new Set([
+  'break', 'case', 'catch', 'class', 'const', 'continue', 'debugger', 'default', 'delete', 'do',
+  'else', 'enum', 'export', 'extends', 'false', 'finally', 'for', 'function', 'if', 'import', 'in',
+  'instanceof', 'new', 'null', 'return', 'super', 'switch', 'this', 'throw', 'true', 'try', 'typeof',
+  'var', 'void', 'while', 'with', 'yield', 'let', 'static', 'implements', 'interface', 'package',
+  'private', 'protected', 'public', 'await', 'arguments', 'eval', 'undefined', 'NaN', 'Infinity'
+]);
+
+/**
+ * Map component names to unique export identifiers. Names that aren't valid
+ * identifiers are PascalCased, and reserved words and `taken` names get a `_`
+ * prefix. When names still collide, the component whose name is already the
+ * identifier keeps it and the others get numeric suffixes in sorted order, so the
+ * result is the same on every run.
+ */
+export function resolveExportNames(componentNames: string[], taken: Iterable<string> = []): Map<string, string> {
+  const used = new Set(taken);
+  const result = new Map<string, string>();
+  const candidates = Array.from(new Set(componentNames)).map(componentName => {
+    let base = IDENTIFIER.test(componentName) ? componentName : toTypeName(componentName);
+    while (RESERVED_WORDS.has(base) || used.has(base)) base = `_${base}`;
+    return { componentName, base };
+  });
+
+  candidates.sort((a, b) => {
+    const exactA = a.componentName === a.base ? 0 : 1;
+    const exactB = b.componentName === b.base ? 0 : 1;
+    if (exactA !== exactB) return exactA - exactB;
+    return a.componentName < b.componentName ? -1 : a.componentName > b.componentName ? 1 : 0;
+  });
+
+  candidates.forEach(({ componentName, base }) => {
+    let name = base;
+    for (let suffix = 2; used.has(name); suffix++) name = `${base}${suffix}`;
+    used.add(name);
+    result.set(componentName, name);
+  });
+
+  return result;
+}
+
+/**
+ * Name of the props interface generated for a component
+ */
+export function getPropsInterfaceName(exportName: string): string {
+  return `${exportName}Props`;
+}
+
+function quote(value: string): string {
+  return `'${value.replace(/\\/g, '\\\\').replace(/'/g, "\\'").replace(/\r/g, '\\r').replace(/\n/g, '\\n')}'`;
+}
+
+function formatKey(name: string): string {
+  return IDENTIFIER.test(name) ? name : quote(name);
+}
+
+function formatDoc(text: string | undefined, indent: string): string {
+  if (!text) return '';
+  const lines = text.replace(/\*\//g, '*\\/').split(/\r?\n/);
+  if (lines.length === 1) return `${indent}/** ${lines[0]} */\n`;
+  return `${indent}/**\n${lines.map(line => `${indent} * ${line}`).join('\n')}\n${indent} */\n`;
+}
+
+function literal(value: any): string {
+  if (typeof value === 'string') return quote(value);
+  return JSON.stringify(value) ?? 'undefined';
+}
+
+function inferTypes(schema: PropSchema): PropType[] | null {
+  if (schema.type) return Array.isArray(schema.type) ? schema.type : [schema.type];
+  if (schema.properties) return ['object'];
+  if (schema.items) return ['array'];
+  return null;
+}
+
+function objectType(schema: PropSchema, indent: string): string {
+  const properties = schema.properties || {};
+  const required = Array.isArray(schema.required) ? schema.required : [];
+  const lines = Object.keys(properties).sort().map(name => {
+    const property = properties[name];
+    // Defaults are filled in by validation, so callers may leave those props out
+    const optional = property.default !== undefined || !(required.includes(name) || property.required === true);
+    return `${formatDoc(property.description, `${indent}  `)}${indent}  ${formatKey(name)}${optional ? '?' : ''}: ${schemaToType(property, `${indent}  `)};`;
+  });
+
+  // Extra keys are only typed when the schema opts in, so misspelled props stay errors
+  if (schema.additionalProperties === true) {
+    lines.push(`${indent}  [key: string]: any;`);
+  } else if (schema.additionalProperties && typeof schema.additionalProperties === 'object') {
+    lines.push(`${indent}  [key: string]: ${schemaToType(schema.additionalProperties, `${indent}  `)} | any;`);
+  }
+
+  return lines.length > 0 ? `{\n${lines.join('\n')}\n${indent}}` : '{ [key: string]: any }';
+}
+
+/**
+ * TypeScript type expression for a props schema node
+ */
+export function schemaToType(schema: PropSchema | undefined, indent = ''): string {
+  if (!schema) return 'any';
+  if (schema.const !== undefined) return literal(schema.const);
+  if (schema.enum && schema.enum.length > 0) return schema.enum.map(literal).join(' | ');
+
+  const types = inferTypes(schema);
+  if (!types) return 'any';
+
+  const rendered = types.map(type => {
+    switch (type) {
+      case 'string':
+        return 'string';
+      case 'number':
+      case 'integer':
+        return 'number';
+      case 'boolean':
+        return 'boolean';
+      case 'null':
+        return 'null';
+      case 'function':
+        return '(...args: any[]) => void';
+      case 'array': {
+        if (!schema.items) return 'any[]';
+        const item = schemaToType(schema.items, indent);
+        return /[|&]|=>/.test(item) && !item.startsWith('{') ? `Array<${item}>` : `${item}[]`;
+      }
+      case 'object':
+        return objectType(schema, indent);
+      default:
+        return 'any';
+    }
+  });
+
+  return Array.from(new Set(rendered)).join(' | ');
+}
+
+/**
+ * `export interface <Name> { ... }` for a block's props schema
+ */
+export function generatePropsInterface(interfaceName: string, schema?: BlockPropsSchema, description?: string): string {
+  const body = schema ? objectType({ ...schema, type: 'object' }, '') : '{ [key: string]: any }';
+  return `${formatDoc(description, '')}export interface ${interfaceName} ${body}\n`;
+}
+
+function sortSources(sources: BlockTypeSource[]): Array<BlockTypeSource & { exportName: string }> {
+  return sources
+    .map(source => ({ ...source, exportName: source.exportName || toTypeName(source.componentName) }))
+    .sort((a, b) => (a.exportName < b.exportName ? -1 : a.exportName > b.exportName ? 1 : 0));
+}
+
+function renderInterfaces(sources: Array<BlockTypeSource & { exportName: string }>): string {
+  return sources
+    .map(source => generatePropsInterface(getPropsInterfaceName(source.exportName), source.schema, source.description))
+    .join('\n');
+}
+
+export interface RenderEntryOptions {
+  importPath?: string;
+  // `false` renders plain createNamedBlock/createAuthorBlock wrappers without props interfaces
+  typed?: boolean;
+}
+
+/**
+ * Typed wrappers for the global namespace: `createTypedBlock<ChartProps>('Chart')`
+ */
+export function renderTypedNamedExports(sources: BlockTypeSource[], options: RenderEntryOptions = {}): string {
+  const sorted = sortSources(sources);
+  const importPath = options.importPath || './components/NamedBlock';
+
+  if (options.typed === false) {
+    const wrappers = sorted
+      .map(source => `export const ${source.exportName} = createNamedBlock(${literal(source.componentName)});`)
+      .join('\n');
+    return `${GENERATED_HEADER}\nimport { createNamedBlock } from '${importPath}';\n\n${wrappers}\n`;
+  }
+
+  const wrappers = sorted
+    .map(source => `export const ${source.exportName} = createTypedBlock<${getPropsInterfaceName(source.exportName)}>(${literal(source.componentName)});`)
+    .join('\n');
+
+  return `${GENERATED_HEADER}\nimport { createTypedBlock } from '${importPath}';\n\n${renderInterfaces(sorted)}\n${wrappers}\n`;
+}
+
+/**
+ * Typed wrappers for one author's entry: `createAuthorBlock<ChartProps>('johnsmith', 'Chart')`,
+ * plus a default export holding all of them
+ */
+export function renderTypedAuthorEntry(author: string, sources: BlockTypeSource[], options: RenderEntryOptions = {}): string {
+  const sorted = sortSources(sources);
+  const importPath = options.importPath || '../../components/AuthorBlock';
+  const typed = options.typed !== false;
+  const wrappers = sorted
+    .map(source => {
+      const typeArgument = typed ? `<${getPropsInterfaceName(source.exportName)}>` : '';
+      return `export const ${source.exportName} = createAuthorBlock${typeArgument}(${literal(author)}, ${literal(source.componentName)});`;
+    })
+    .join('\n');
+  const defaultExport = sorted.length > 0
+    ? `export default {\n${sorted.map(source => `  ${source.exportName}`).join(',\n')}\n};\n`
+    : 'export default {};\n';
+  const interfaces = typed ? `${renderInterfaces(sorted)}\n` : '';
+
+  return `${GENERATED_HEADER}\nimport { createAuthorBlock } from '${importPath}';\n\n${interfaces}${wrappers}\n\n${defaultExport}`;
+}
+
+/**
+ * Props interfaces only, for a standalone declaration file
+ */
+export function renderPropsDeclarations(sources: BlockTypeSource[]): string {
+  return `${GENERATED_HEADER}\n${renderInterfaces(sortSources(sources))}`;
+}
+
+/**
+ * Fetches each block's props schema once. A failed fetch resolves to `undefined`
+ * so the block gets untyped props instead of failing the whole run.
+ */
+export function createSchemaLookup(
+  getMetadata: GenerateBlockTypesOptions['getMetadata'] = (blockId: string) => federationLoader.getBlockMetadata(blockId)
+): (blockId: string) => Promise<BlockPropsSchema | undefined> {
+  const schemas = new Map<string, Promise<BlockPropsSchema | undefined>>();
+
+  return (blockId: string) => {
+    if (!schemas.has(blockId)) {
+      schemas.set(blockId, getMetadata(blockId).then(
+        metadata => metadata.blockProps,
+        error => {
+          logger.warn('Could not fetch props schema, generating untyped props', { blockId, error });
+          return undefined;
+        }
+      ));
+    }
+    return schemas.get(blockId) as Promise<BlockPropsSchema | undefined>;
+  };
+}
+
+/**
+ * Build time: look up every block's props schema and render typed wrappers for the
+ * global namespace and each author. Blocks whose metadata can't be fetched get an
+ * untyped props interface instead of failing the whole run.
+ */
+export async function generateBlockTypes(options: GenerateBlockTypesOptions): Promise<GeneratedBlockTypes> {
+  const getSchema = createSchemaLookup(options.getMetadata);
+
+  const toSources = (entries: { [componentName: string]: { blockId: string; description?: string } }) => {
+    const exportNames = resolveExportNames(Object.keys(entries));
+    return Promise.all(Object.keys(entries).map(async componentName => ({
+      componentName,
+      exportName: exportNames.get(componentName),
+      blockId: entries[componentName].blockId,
+      description: entries[componentName].description,
+      schema: await getSchema(entries[componentName].blockId)
+    })));
+  };
+
+  const namedSources = await toSources(options.registry);
+  const authors: { [author: string]: string } = {};
+  const authorSources: Array<{ author: string; source: BlockTypeSource }> = [];
+
+  for (const author of Object.keys(options.authorRegistry || {}).sort()) {
+    const sources = await toSources((options.authorRegistry || {})[author]);
+    authors[author] = renderTypedAuthorEntry(author, sources);
+    sources.forEach(source => authorSources.push({ author, source }));
+  }
+
+  // Author entries each have their own module, but the declarations share one, so
+  // author interfaces get the author in their name and can't take a global one's
+  const declarationKey = ({ author, source }: { author: string; source: BlockTypeSource }) => `${author}/${source.componentName}`;
+  const declarationNames = resolveExportNames(
+    authorSources.map(declarationKey),
+    namedSources.map(source => source.exportName as string)
+  );
+  const declarationSources: BlockTypeSource[] = [
+    ...namedSources,
+    ...authorSources.map(entry => ({ ...entry.source, exportName: declarationNames.get(declarationKey(entry)) }))
+  ];
+
+  logger.info('Generated block types', { components: namedSources.length, authors: Object.keys(authors).length });
+
+  return {
+    namedExports: renderTypedNamedExports(namedSources),
+    authors,
+    declarations: renderPropsDeclarations(declarationSources)
+  };
+}
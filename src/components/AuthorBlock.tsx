@@ -1,11 +1,46 @@
-import React, { useState, useEffect, useRef, Suspense } from 'react';
+import React, { useState, useEffect, useRef, useCallback, Suspense } from 'react';
 import { blockRegistry } from '../utils/blockRegistry';
 import { federationLoader } from '../utils/federationLoader';
-import type { BlockMetadata } from '../utils/federationLoader';
+import type { BlockIsolation, BlockMetadata, MountHandle } from '../utils/federationLoader';
+import type { RetryPolicy } from '../utils/retry';
+import { prepareMountTarget, mountInto, unmountFrom, arePropsShallowEqual } from '../utils/mountHandle';
+import type { MountTarget } from '../utils/mountHandle';
+import { createLogger } from '../utils/logger';
+import { BlockNotInRegistryError, BlockRuntimeError, MissingMountError, isBlockLoadError } from '../utils/errors';
+import { getAuthorIsolation } from '../utils/trustPolicy';
+import { watchBlockErrors } from '../utils/errorCapture';
+import { useViewportTrigger, useNearViewport } from '../hooks/useViewport';
+import { useStableCallbacks } from '../hooks/useStableCallbacks';
+import { BlockErrorBoundary } from './BlockErrorBoundary';
+
+const logger = createLogger('AuthorBlock');
 
 export interface AuthorBlockProps {
   author: string;
   component: string;
+  // Exact version (`1.2.3`) or semver range (`^1.2.0`) to pin the component to
+  version?: string;
+  // Named source to fetch the component from, instead of the source whose registry lists it
+  source?: string;
+  // Override the global retry policy for this component
+  retryPolicy?: Partial<RetryPolicy>;
+  // 'lazy' defers resolving, loading and mounting until the component nears the viewport
+  loading?: 'eager' | 'lazy';
+  // Margin used by lazy loading (default '200px')
+  rootMargin?: string;
+  // Run the component's cleanup once it scrolls this far away, and remount when it returns
+  unmountWhenHidden?: boolean;
+  // How far away counts as hidden (default '1000px')
+  unmountMargin?: string;
+  // 'shadow' mounts into an open shadow root so the component's CSS and the page's CSS don't mix;
+  // 'iframe' runs it in a sandboxed iframe. Defaults to the configured trust policy for the author.
+  isolation?: BlockIsolation;
+  // Called with loading failures and with a BlockRuntimeError when the component crashes
+  onError?: (error: Error) => void;
+  // Replaces the default error UI; call retry() to load and mount the component again
+  errorFallback?: (error: Error, retry: () => void) => React.ReactNode;
+  // Catch-all for events the component emits through `context.emit(name, payload)`
+  onBlockEvent?: (name: string, payload?: any) => void;
   [key: string]: any; // Allow any props to be passed through
 }
 
@@ -13,13 +48,64 @@ export interface AuthorBlockProps {
  * AuthorBlock component that loads components from specific authors
  * Usage: <AuthorBlock author="johnsmith" component="Chart" data={chartData} />
  */
-const AuthorBlock: React.FC<AuthorBlockProps> = ({ author, component, ...props }) => {
+const AuthorBlock: React.FC<AuthorBlockProps> = ({
+  author,
+  component,
+  version,
+  source,
+  retryPolicy,
+  loading: loadingMode = 'eager',
+  rootMargin,
+  unmountWhenHidden = false,
+  unmountMargin,
+  isolation,
+  onError,
+  errorFallback,
+  onBlockEvent,
+  ...props
+}) => {
   const [BlockComponent, setBlockComponent] = useState<React.ComponentType<any> | null>(null);
   const [loading, setLoading] = useState(true);
-  const [error, setError] = useState<string | null>(null);
+  const [error, setError] = useState<Error | null>(null);
   const [metadata, setMetadata] = useState<BlockMetadata | null>(null);
+  const [retryCount, setRetryCount] = useState(0);
+  const [blockId, setBlockId] = useState<string | null>(null);
+  const scriptUrlsRef = useRef<string[]>([]);
+  const retryPolicyRef = useRef(retryPolicy);
+  retryPolicyRef.current = retryPolicy;
+  const onErrorRef = useRef(onError);
+  onErrorRef.current = onError;
+  const onBlockEventRef = useRef(onBlockEvent);
+  onBlockEventRef.current = onBlockEvent;
+  // Callback props keep their identity across renders so they don't trigger updates
+  const stableProps = useStableCallbacks(props);
+  const effectiveIsolation = isolation ?? getAuthorIsolation(author);
+
+  // The loaded component crashed: show the error state (which unmounts it) and report it
+  const reportRuntimeError = useCallback((err: Error) => {
+    setError(err);
+    onErrorRef.current?.(err);
+  }, []);
+
+  const retry = useCallback(() => {
+    setError(null);
+    setBlockComponent(null);
+    setLoading(true);
+    setRetryCount(count => count + 1);
+  }, []);
+
+  // Callback ref so the observers follow whichever container is currently rendered
+  const [container, setContainer] = useState<HTMLDivElement | null>(null);
+  const [inView, setInView] = useState(loadingMode !== 'lazy');
+  useViewportTrigger(container, () => setInView(true), { enabled: !inView, rootMargin });
+  const { isNear, lastHeight } = useNearViewport(container, {
+    enabled: unmountWhenHidden,
+    rootMargin: unmountMargin
+  });
 
   useEffect(() => {
+    if (!inView) return;
+
     let isMounted = true;
 
     const loadAuthorComponent = async () => {
@@ -27,56 +113,110 @@ const AuthorBlock: React.FC<AuthorBlockProps> = ({ author, component, ...props }
         setLoading(true);
         setError(null);
 
-        console.log(`🔄 Loading component ${author}/${component}...`);
+        logger.debug('Loading component', { author, component, version });
 
-        // Get block ID for the author's component
-        const blockId = await blockRegistry.getAuthorBlockId(author, component);
+        // Get block ID (and pinned version) for the author's component
+        const resolved = await blockRegistry.resolveAuthorBlock(author, component, version);
         
-        if (!blockId) {
-          throw new Error(`Component "${component}" not found for author "${author}"`);
+        if (!resolved) {
+          throw new BlockNotInRegistryError(component, { author });
         }
 
-        console.log(`📦 Found block ID: ${blockId} for ${author}/${component}`);
+        const { blockId } = resolved;
+        const blockSource = source ?? resolved.source;
+        const resolvedVersion = resolved.version
+          ? await federationLoader.resolveVersion(blockId, resolved.version, { retryPolicy: retryPolicyRef.current, source: blockSource })
+          : undefined;
+
+        logger.debug('Found block ID', { author, component, blockId, version: resolvedVersion });
 
-        // Load the federated module
-        const module = await federationLoader.loadModule(blockId);
+        // Load the federated module, or a sandbox for it when the author isn't trusted
+        const loadOptions = { version: resolvedVersion, retryPolicy: retryPolicyRef.current, source: blockSource };
+        const module = effectiveIsolation === 'iframe'
+          ? await federationLoader.loadSandboxedModule(blockId, loadOptions)
+          : await federationLoader.loadModule(blockId, loadOptions);
         
         if (!isMounted) return;
+        scriptUrlsRef.current = federationLoader.getModuleScriptUrls(module);
 
         // Get the mount function
         const mountFunction = module.mount || module.default?.mount;
         
         if (!mountFunction || typeof mountFunction !== 'function') {
-          throw new Error(`Block ${blockId} does not export a mount function`);
+          throw new MissingMountError(blockId, Object.keys(module || {}));
         }
 
+        const styles = federationLoader.getModuleStyles(module);
+        const emit = (name: string, payload?: any) => {
+          logger.debug('Component emitted event', { author, component, name, payload });
+          onBlockEventRef.current?.(name, payload);
+        };
+        const reportError = (err: unknown) => {
+          logger.error('Component reported an error', { author, component, error: err });
+          reportRuntimeError(isBlockLoadError(err) ? err : new BlockRuntimeError(blockId, 'async', err));
+        };
+
         // Create a React wrapper component for the mount function
         const WrapperComponent: React.FC<any> = (wrapperProps) => {
           const containerRef = useRef<HTMLDivElement>(null);
-          const cleanupRef = useRef<(() => void) | null>(null);
+          const targetRef = useRef<MountTarget | null>(null);
+          const handleRef = useRef<MountHandle | null>(null);
+          const mountedPropsRef = useRef<any>(wrapperProps);
 
           useEffect(() => {
-            if (containerRef.current) {
-              console.log(`🔄 Mounting ${author}/${component} with props:`, wrapperProps);
+            const host = containerRef.current;
+            const target = host ? prepareMountTarget(host, { isolation: effectiveIsolation, styles, reportError, emit }) : null;
+            const container = target?.element ?? null;
+            targetRef.current = target;
+            if (target) {
+              logger.debug('Mounting component', { author, component, props: wrapperProps });
               
               try {
-                const cleanup = mountFunction(containerRef.current, wrapperProps);
-                if (typeof cleanup === 'function') {
-                  cleanupRef.current = cleanup;
-                }
-                console.log(`✅ Successfully mounted ${author}/${component}`);
+                handleRef.current = mountInto(target.element, mountFunction, wrapperProps, target.context);
+                mountedPropsRef.current = wrapperProps;
+                logger.info('Mounted component', { author, component });
               } catch (err: any) {
-                console.error(`❌ Failed to mount ${author}/${component}:`, err);
+                logger.error('Failed to mount component', { author, component, error: err });
+                reportRuntimeError(new BlockRuntimeError(blockId, 'mount', err));
               }
             }
 
             return () => {
-              if (cleanupRef.current) {
-                console.log(`🧹 Cleaning up ${author}/${component}`);
-                cleanupRef.current();
-                cleanupRef.current = null;
+              if (handleRef.current) {
+                logger.debug('Cleaning up component', { author, component });
+                const handle = handleRef.current;
+                handleRef.current = null;
+                try {
+                  unmountFrom(container, handle);
+                } catch (err: any) {
+                  logger.error('Failed to clean up component', { author, component, error: err });
+                }
               }
+              target?.release();
             };
+          }, []);
+
+          // Push prop changes into the mounted block, remounting legacy blocks
+          useEffect(() => {
+            const handle = handleRef.current;
+            const target = targetRef.current;
+            if (!handle || !target) return;
+            if (arePropsShallowEqual(mountedPropsRef.current, wrapperProps)) return;
+
+            mountedPropsRef.current = wrapperProps;
+            try {
+              if (handle.update) {
+                handle.update(wrapperProps);
+              } else {
+                logger.debug('Remounting component with new props', { author, component, props: wrapperProps });
+                handleRef.current = null;
+                unmountFrom(target.element, handle);
+                handleRef.current = mountInto(target.element, mountFunction, wrapperProps, target.context);
+              }
+            } catch (err: any) {
+              logger.error('Failed to update component', { author, component, error: err });
+              reportRuntimeError(new BlockRuntimeError(blockId, 'update', err));
+            }
           }, [wrapperProps]);
 
           return <div ref={containerRef} className="mext-federation-container" />;
@@ -85,16 +225,23 @@ const AuthorBlock: React.FC<AuthorBlockProps> = ({ author, component, ...props }
         WrapperComponent.displayName = `FederatedComponent(${author}/${component})`;
 
         // Get metadata for debugging
-        const blockMetadata = await federationLoader.getBlockMetadata(blockId);
+        const blockMetadata = await federationLoader.getBlockMetadata(blockId, {
+          version: resolvedVersion,
+          retryPolicy: retryPolicyRef.current,
+          source: blockSource
+        });
         
         setBlockComponent(() => WrapperComponent);
+        setBlockId(blockId);
         setMetadata(blockMetadata);
-        console.log(`✅ Successfully loaded ${author}/${component}`);
+        logger.info('Loaded component', { author, component, blockId });
 
       } catch (err: any) {
-        console.error(`❌ Failed to load ${author}/${component}:`, err);
+        logger.error('Failed to load component', { author, component, error: err });
         if (isMounted) {
-          setError(err.message || 'Failed to load component');
+          const loadError = err instanceof Error ? err : new Error('Failed to load component');
+          setError(loadError);
+          onErrorRef.current?.(loadError);
         }
       } finally {
         if (isMounted) {
@@ -108,11 +255,21 @@ const AuthorBlock: React.FC<AuthorBlockProps> = ({ author, component, ...props }
     return () => {
       isMounted = false;
     };
-  }, [author, component]);
+  }, [author, component, version, source, inView, retryCount, effectiveIsolation]);
+
+  // Route uncaught errors and rejections from the component's own code to the error state
+  useEffect(() => {
+    if (!BlockComponent || scriptUrlsRef.current.length === 0) return;
+
+    return watchBlockErrors(scriptUrlsRef.current, err => {
+      logger.error('Uncaught error from component', { author, component, error: err });
+      reportRuntimeError(new BlockRuntimeError(blockId ?? undefined, 'async', err));
+    });
+  }, [BlockComponent, blockId, author, component, reportRuntimeError]);
 
   if (loading) {
     return (
-      <div className="mext-block-loading" style={{ 
+      <div ref={setContainer} className="mext-block-loading" style={{ 
         padding: '20px', 
         textAlign: 'center',
         border: '1px dashed #ccc',
@@ -128,6 +285,10 @@ const AuthorBlock: React.FC<AuthorBlockProps> = ({ author, component, ...props }
   }
 
   if (error) {
+    if (errorFallback) {
+      return <div className="mext-block-error">{errorFallback(error, retry)}</div>;
+    }
+
     return (
       <div className="mext-block-error" style={{ 
         padding: '20px', 
@@ -139,11 +300,14 @@ const AuthorBlock: React.FC<AuthorBlockProps> = ({ author, component, ...props }
       }}>
         <div><strong>Error loading {author}/{component}</strong></div>
         <div style={{ fontSize: '12px', marginTop: '8px' }}>
-          {error}
+          {error.message}
         </div>
         <div style={{ fontSize: '11px', marginTop: '8px', color: '#666' }}>
           Make sure the component exists and is published
         </div>
+        <button type="button" onClick={retry} style={{ marginTop: '12px', fontSize: '12px', cursor: 'pointer' }}>
+          Retry
+        </button>
       </div>
     );
   }
@@ -176,8 +340,14 @@ const AuthorBlock: React.FC<AuthorBlockProps> = ({ author, component, ...props }
         Initializing {author}/{component}...
       </div>
     }>
-      <div className="mext-author-block" data-author={author} data-component={component}>
-        <BlockComponent {...props} />
+      <div ref={setContainer} className="mext-author-block" data-author={author} data-component={component}>
+        {unmountWhenHidden && !isNear ? (
+          <div className="mext-block-placeholder" style={{ height: lastHeight }} />
+        ) : (
+          <BlockErrorBoundary blockId={blockId ?? undefined} onError={reportRuntimeError}>
+            <BlockComponent {...stableProps} />
+          </BlockErrorBoundary>
+        )}
         {metadata && (
           <div className="mext-block-metadata" style={{ display: 'none' }}>
             {JSON.stringify(metadata)}
@@ -193,9 +363,11 @@ export default AuthorBlock;
 /**
  * Create a typed author block component
  */
-export function createAuthorBlock<T = any>(author: string, component: string) {
+export function createAuthorBlock<T = any>(author: string, component: string, options: {
+  version?: string;
+} = {}) {
   const AuthorBlockComponent: React.FC<T> = (props) => (
-    <AuthorBlock author={author} component={component} {...props} />
+    <AuthorBlock author={author} component={component} version={options.version} {...props} />
   );
   
   AuthorBlockComponent.displayName = `AuthorBlock(${author}/${component})`;
@@ -211,7 +383,7 @@ export async function createAuthorNamespace(author: string): Promise<{ [componen
     const components = await blockRegistry.getAuthorComponents(author);
     
     if (!components) {
-      console.warn(`No components found for author: ${author}`);
+      logger.warn('No components found for author', { author });
       return {};
     }
 
@@ -223,7 +395,7 @@ export async function createAuthorNamespace(author: string): Promise<{ [componen
 
     return namespace;
   } catch (error: any) {
-    console.error(`Failed to create author namespace for ${author}:`, error);
+    logger.error('Failed to create author namespace', { author, error });
     return {};
   }
 } 
\ No newline at end of file
@@ -1,286 +1,445 @@
-import React, { useEffect, useRef, useState, useCallback } from 'react';
+import React, { useEffect, useMemo, useRef, useState, useCallback } from 'react';
 import { federationLoader } from '../utils/federationLoader';
 import { blockRegistry } from '../utils/blockRegistry';
+import { prepareMountTarget, mountInto, hydrateInto, unmountFrom, arePropsShallowEqual } from '../utils/mountHandle';
+import type { BlockIsolation, FederationModule, MountHandle } from '../utils/federationLoader';
+import type { MountTarget } from '../utils/mountHandle';
+import { createLogger } from '../utils/logger';
+import { BlockLoadError, BlockRuntimeError, MissingMountError, PropsValidationError, isBlockLoadError } from '../utils/errors';
+import { validateBlockProps } from '../utils/propsValidation';
+import type { BlockPropsSchema, ValidationIssue, ValidationMode } from '../utils/propsValidation';
+import { watchBlockErrors } from '../utils/errorCapture';
+import { BlockErrorBoundary } from './BlockErrorBoundary';
+import type { RetryPolicy } from '../utils/retry';
+import { getRenderKey } from '../utils/ssr';
+import { useBlockSSRState } from './BlockSSRProvider';
+import { prefetchBlock } from '../utils/preload';
+import { useViewportTrigger, useNearViewport } from '../hooks/useViewport';
+import { useStableCallbacks } from '../hooks/useStableCallbacks';
+
+const logger = createLogger('Block');
 
 export interface BlockProps {
   blockId: string;
+  // Exact version (`1.2.3`) or semver range (`^1.2.0`) to pin the block to
+  version?: string;
+  // Named source (see `configure({ sources })`) to fetch the block from. Defaults to the source
+  // whose registry lists the block, then the 'default' source.
+  source?: string;
   props?: any;
   onLoad?: () => void;
+  // Receives a BlockLoadError subclass for loading failures and a BlockRuntimeError
+  // when a loaded block crashes; branch on `code` or instanceof
   onError?: (error: Error) => void;
   fallback?: React.ReactNode;
+  // Replaces the default error UI; call retry() to load and mount the block again
+  errorFallback?: (error: Error, retry: () => void) => React.ReactNode;
   className?: string;
   style?: React.CSSProperties;
   // Enable type checking for props
   validateProps?: boolean;
+  // What to do with props that don't match the block's schema (default 'coerce');
+  // setting it also enables validation
+  validationMode?: ValidationMode;
+  // Receives every schema violation found in the current props
+  onValidationError?: (issues: ValidationIssue[]) => void;
   // Data attribute for block identification
   dataMextyId?: string;
-}
-
-interface BlockPropsSchema {
-  type: 'object';
-  properties: {
-    [propName: string]: {
-      type: 'string' | 'number' | 'boolean' | 'array' | 'object';
-      description?: string;
-      required?: boolean;
-      default?: any;
-      enum?: any[];
-      items?: any;
-      properties?: any;
-    };
-  };
-  required?: string[];
-  additionalProperties?: boolean;
+  // Override the global retry policy for this block
+  retryPolicy?: Partial<RetryPolicy>;
+  // Add a prefetch hint for the block's script once its container nears the viewport
+  prefetch?: 'viewport';
+  // How close to the viewport counts as near, e.g. '300px' (default '200px')
+  prefetchMargin?: string;
+  // 'lazy' defers metadata, script download and mount until the block nears the viewport
+  loading?: 'eager' | 'lazy';
+  // Margin used by lazy loading (default '200px')
+  rootMargin?: string;
+  // Run the block's cleanup once it scrolls this far away, and remount when it returns
+  unmountWhenHidden?: boolean;
+  // How far away counts as hidden (default '1000px')
+  unmountMargin?: string;
+  // 'shadow' mounts into an open shadow root so the block's CSS and the page's CSS don't mix;
+  // 'iframe' runs the block in a sandboxed iframe with no access to the page
+  isolation?: BlockIsolation;
+  // Catch-all for events the block emits through `context.emit(name, payload)`
+  onBlockEvent?: (name: string, payload?: any) => void;
 }
 
 const Block: React.FC<BlockProps> = ({
   blockId,
+  version,
+  source,
   props: blockProps,
   onLoad,
   onError,
   fallback,
+  errorFallback,
   className,
   style,
   validateProps = false,
-  dataMextyId
+  validationMode,
+  onValidationError,
+  dataMextyId,
+  retryPolicy,
+  prefetch,
+  prefetchMargin,
+  loading = 'eager',
+  rootMargin,
+  unmountWhenHidden = false,
+  unmountMargin,
+  isolation = 'none',
+  onBlockEvent
 }) => {
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<Error | null>(null);
-  const [MountedComponent, setMountedComponent] = useState<React.ComponentType | null>(null);
+  const [retryCount, setRetryCount] = useState(0);
+  const loadedModuleRef = useRef<FederationModule | null>(null);
+  const [MountedComponent, setMountedComponent] = useState<React.ComponentType<{ mountProps: any }> | null>(null);
   const [propsSchema, setPropsSchema] = useState<BlockPropsSchema | null>(null);
-  const [validatedProps, setValidatedProps] = useState<any>(blockProps);
+  const [schemaSettled, setSchemaSettled] = useState(false);
+  // In 'strict' mode a schema that couldn't be fetched keeps the block from mounting
+  const [schemaError, setSchemaError] = useState<Error | null>(null);
+  const validationEnabled = validateProps || validationMode !== undefined;
+  const mode = validationMode || 'coerce';
 
-  // Validate props against schema
-  const validatePropsAgainstSchema = useCallback((props: any, schema: BlockPropsSchema) => {
-    if (!validateProps || !schema || !props) {
-      return props;
-    }
-
-    console.log(`🔍 Validating props for block ${blockId}:`, props);
-    console.log(`🔍 Against schema:`, schema);
-
-    const validated: any = {};
-    const warnings: string[] = [];
-
-    // Apply defaults and validate required props
-    Object.entries(schema.properties || {}).forEach(([propName, propDef]) => {
-      const propValue = props[propName];
-      
-      // Check if required prop is missing
-      if (schema.required?.includes(propName) && (propValue === undefined || propValue === null)) {
-        if (propDef.default !== undefined) {
-          validated[propName] = propDef.default;
-          console.log(`🔧 Applied default value for required prop ${propName}:`, propDef.default);
-        } else {
-          warnings.push(`Required prop "${propName}" is missing`);
-        }
-      } else if (propValue !== undefined) {
-        // Validate prop type (basic validation)
-        const isValidType = validatePropType(propValue, propDef);
-        if (isValidType) {
-          validated[propName] = propValue;
-        } else {
-          warnings.push(`Prop "${propName}" has invalid type. Expected ${propDef.type}, got ${typeof propValue}`);
-          // Use default if available
-          if (propDef.default !== undefined) {
-            validated[propName] = propDef.default;
-            console.log(`🔧 Used default value for invalid prop ${propName}:`, propDef.default);
-          }
-        }
-      } else if (propDef.default !== undefined) {
-        // Apply default for optional props
-        validated[propName] = propDef.default;
-        console.log(`🔧 Applied default value for optional prop ${propName}:`, propDef.default);
-      }
-    });
+  // Keep callbacks in refs so new function identities don't reload the block
+  const onLoadRef = useRef(onLoad);
+  const onErrorRef = useRef(onError);
+  const retryPolicyRef = useRef(retryPolicy);
+  const onBlockEventRef = useRef(onBlockEvent);
+  const onValidationErrorRef = useRef(onValidationError);
+  onLoadRef.current = onLoad;
+  onErrorRef.current = onError;
+  retryPolicyRef.current = retryPolicy;
+  onBlockEventRef.current = onBlockEvent;
+  onValidationErrorRef.current = onValidationError;
 
-    // Add additional properties if allowed
-    if (schema.additionalProperties !== false) {
-      Object.entries(props).forEach(([propName, propValue]) => {
-        if (!schema.properties?.[propName]) {
-          validated[propName] = propValue;
-        }
-      });
-    }
+  // A loaded block crashed: show the error state (which unmounts it) and report it
+  const reportRuntimeError = useCallback((err: Error) => {
+    setError(err);
+    onErrorRef.current?.(err);
+  }, []);
 
-    if (warnings.length > 0) {
-      console.warn(`⚠️ Props validation warnings for block ${blockId}:`, warnings);
-    }
+  const retry = useCallback(() => {
+    setError(null);
+    setMountedComponent(null);
+    setIsLoading(true);
+    setRetryCount(count => count + 1);
+  }, []);
 
-    console.log(`✅ Validated props for block ${blockId}:`, validated);
-    return validated;
-  }, [blockId, validateProps]);
+  // Server-rendered markup for these exact props, when a BlockSSRProvider supplied it
+  const ssrState = useBlockSSRState();
+  const serverHtml = ssrState?.html[getRenderKey(blockId, version, blockProps)];
+  const serverHtmlRef = useRef(serverHtml);
+  serverHtmlRef.current = serverHtml;
 
-  // Basic type validation helper
-  const validatePropType = (value: any, propDef: any): boolean => {
-    const { type, enum: enumValues } = propDef;
+  // Callback ref so the observers follow the container across render branches
+  const [container, setContainer] = useState<HTMLDivElement | null>(null);
+  const isLoadingRef = useRef(isLoading);
+  isLoadingRef.current = isLoading;
+  const loadReportedRef = useRef(false);
 
-    // Check enum values first
-    if (enumValues && Array.isArray(enumValues)) {
-      return enumValues.includes(value);
-    }
+  const [inView, setInView] = useState(loading !== 'lazy');
+  useViewportTrigger(container, () => setInView(true), {
+    enabled: !inView,
+    rootMargin
+  });
+  const { isNear, lastHeight } = useNearViewport(container, {
+    enabled: unmountWhenHidden,
+    rootMargin: unmountMargin
+  });
 
-    // Check basic types
-    switch (type) {
-      case 'string':
-        return typeof value === 'string';
-      case 'number':
-        return typeof value === 'number' && !isNaN(value);
-      case 'boolean':
-        return typeof value === 'boolean';
-      case 'array':
-        return Array.isArray(value);
-      case 'object':
-        return typeof value === 'object' && value !== null;
-      default:
-        return true; // Allow unknown types
-    }
-  };
+  useViewportTrigger(container, () => {
+    if (!isLoadingRef.current) return;
+    prefetchBlock({ blockId, version, source }, { retryPolicy: retryPolicyRef.current })
+      .catch(err => logger.debug('Prefetch failed', { blockId, error: err }));
+  }, { enabled: prefetch === 'viewport' && !!blockId, rootMargin: prefetchMargin });
 
   // Fetch props schema when component mounts
   useEffect(() => {
+    let isActive = true;
+
     const fetchPropsSchema = async () => {
-      if (!validateProps) return;
+      if (!validationEnabled || !inView) return;
 
+      // Never validate against the schema of the previous block or version
+      setPropsSchema(null);
+      setSchemaError(null);
+      setSchemaSettled(false);
       try {
-        console.log(`🔍 Fetching props schema for block: ${blockId}`);
-        const metadata = await federationLoader.getBlockMetadata(blockId);
+        logger.debug('Fetching props schema', { blockId, version });
+        const resolvedVersion = version
+          ? await federationLoader.resolveVersion(blockId, version, { retryPolicy: retryPolicyRef.current, source })
+          : undefined;
+        const metadata = await federationLoader.getBlockMetadata(blockId, {
+          version: resolvedVersion,
+          retryPolicy: retryPolicyRef.current,
+          source
+        });
         
+        if (!isActive) return;
         if (metadata?.blockProps) {
           setPropsSchema(metadata.blockProps);
-          console.log(`✅ Props schema loaded for block ${blockId}:`, metadata.blockProps);
+          logger.debug('Props schema loaded', { blockId, schema: metadata.blockProps });
         } else {
-          console.log(`ℹ️ No props schema found for block ${blockId}`);
+          logger.info('No props schema found', { blockId });
         }
       } catch (err: any) {
-        console.warn(`⚠️ Failed to fetch props schema for block ${blockId}:`, err.message);
+        logger.warn('Failed to fetch props schema', { blockId, message: err.message });
+        if (isActive && mode === 'strict') {
+          setSchemaError(err);
+          onErrorRef.current?.(err);
+        }
+      } finally {
+        if (isActive) setSchemaSettled(true);
       }
     };
 
     fetchPropsSchema();
-  }, [blockId, validateProps]);
+
+    return () => {
+      isActive = false;
+    };
+  }, [blockId, version, source, validationEnabled, inView, mode, retryCount]);
 
   // Validate props when they change or schema is loaded
+  const validation = useMemo(
+    () => (validationEnabled && propsSchema ? validateBlockProps(blockProps, propsSchema, { mode }) : null),
+    [blockProps, propsSchema, validationEnabled, mode]
+  );
+  const validatedProps = validation ? validation.value : blockProps;
+  const validationError = useMemo(
+    () => (mode === 'strict' && validation && !validation.valid ? new PropsValidationError(blockId, validation.issues) : null),
+    [blockId, mode, validation]
+  );
+  // Strict mode doesn't mount until the schema has been checked
+  const awaitingSchema = mode === 'strict' && validationEnabled && !schemaSettled;
+
+  // Report once per distinct set of issues, not on every render with inline props
+  const issuesKey = validation && !validation.valid
+    ? JSON.stringify(validation.issues.map(issue => [issue.path, issue.keyword]))
+    : '';
+  const validationRef = useRef(validation);
+  validationRef.current = validation;
   useEffect(() => {
-    if (propsSchema && blockProps) {
-      const validated = validatePropsAgainstSchema(blockProps, propsSchema);
-      setValidatedProps(validated);
-    } else {
-      setValidatedProps(blockProps);
+    const current = validationRef.current;
+    if (!issuesKey || !current) return;
+
+    logger.warn('Props validation failed', { blockId, mode, issues: current.issues });
+    onValidationErrorRef.current?.(current.issues);
+    if (mode === 'strict') {
+      onErrorRef.current?.(new PropsValidationError(blockId, current.issues));
     }
-  }, [blockProps, propsSchema, validatePropsAgainstSchema]);
+  }, [issuesKey, blockId, mode]);
+
+  // Callback props keep their identity across renders so they don't trigger updates
+  const stableProps = useStableCallbacks(validatedProps);
 
   // Load and create the mounted component
   useEffect(() => {
-    console.log(`🔄 Block useEffect triggered - blockId: ${blockId}`);
-    
+    if (!inView) return;
+
     if (!blockId) {
-      console.error(`❌ Block ID is required but got: ${blockId}`);
-      setError(new Error('Block ID is required'));
+      logger.error('Block ID is required', { blockId });
+      setError(new BlockLoadError('MISSING_BLOCK_ID', 'Block ID is required'));
       setIsLoading(false);
       return;
     }
 
+    let isActive = true;
+
     const loadAndMount = async () => {
+      loadReportedRef.current = false;
       setIsLoading(true);
       setError(null);
       setMountedComponent(null);
 
-      // Retry logic with exponential backoff
-      const maxRetries = 3;
-      const baseDelay = 500; // 500ms base delay
-      
-      for (let attempt = 1; attempt <= maxRetries; attempt++) {
-        try {
-          console.log(`🔄 Loading federation module: ${blockId} (attempt ${attempt}/${maxRetries})`);
-          
-          // Load the federation module
-          const module = await federationLoader.loadModule(blockId);
-          console.log(`✅ Module loaded:`, module);
-          console.log(`🔍 Module keys:`, Object.keys(module || {}));
-          
-          // Get the mount function
-          const mountFunction = module.mount || module.default?.mount;
-          console.log(`🔍 Mount function found:`, !!mountFunction, typeof mountFunction);
+      try {
+        logger.debug('Loading federation module', { blockId, version });
+        
+        // Load the federation module; retries happen inside the loader
+        const loadOptions = { version, retryPolicy: retryPolicyRef.current, source };
+        const module = isolation === 'iframe'
+          ? await federationLoader.loadSandboxedModule(blockId, loadOptions)
+          : await federationLoader.loadModule(blockId, loadOptions);
+        if (!isActive) return;
+        loadedModuleRef.current = module;
+        logger.debug('Module loaded', { blockId, exports: Object.keys(module || {}) });
+        
+        // Get the mount function
+        const mountFunction = module.mount || module.default?.mount;
+        const hydrateFunction = module.hydrate || module.default?.hydrate;
+        // Server markup lives in the host document, so isolated blocks mount fresh
+        const initialHtml = isolation === 'none' ? serverHtmlRef.current : undefined;
+        const styles = federationLoader.getModuleStyles(module);
+        const emit = (name: string, payload?: any) => {
+          logger.debug('Block emitted event', { blockId, name, payload });
+          onBlockEventRef.current?.(name, payload);
+        };
+        const reportError = (err: unknown) => {
+          logger.error('Block reported an error', { blockId, error: err });
+          reportRuntimeError(isBlockLoadError(err) ? err : new BlockRuntimeError(blockId, 'async', err));
+        };
+        
+        if (!mountFunction || typeof mountFunction !== 'function') {
+          const missingMount = new MissingMountError(blockId, Object.keys(module || {}));
+          logger.error(missingMount.message, { blockId });
+          throw missingMount;
+        }
+
+        // Create a wrapper component that handles mounting (like FederationTestPage).
+        // Props are passed in on every render so changes reach the mounted block
+        // without reloading the module.
+        const WrapperComponent: React.FC<{ mountProps: any }> = ({ mountProps }) => {
+          const mountRef = useRef<HTMLDivElement>(null);
+          const targetRef = useRef<MountTarget | null>(null);
+          const handleRef = useRef<MountHandle | null>(null);
+          const mountedPropsRef = useRef<any>(mountProps);
+          const latestPropsRef = useRef<any>(mountProps);
+          const hydratedRef = useRef(false);
+          latestPropsRef.current = mountProps;
           
-          if (!mountFunction || typeof mountFunction !== 'function') {
-            const errorMsg = `Block ${blockId} does not export a mount function. Available exports: ${Object.keys(module || {})}`;
-            console.error(`❌ ${errorMsg}`);
-            throw new Error(errorMsg);
-          }
-
-          // Create a wrapper component that handles mounting (like FederationTestPage)
-          const WrapperComponent: React.FC = () => {
-            const mountRef = useRef<HTMLDivElement>(null);
-            const [mounted, setMounted] = useState(false);
-            
-            useEffect(() => {
-              if (mountRef.current && !mounted) {
-                try {
-                  console.log(`🔧 Mounting block: ${blockId} with validated props:`, validatedProps);
-                  mountFunction(mountRef.current, validatedProps);
-                  setMounted(true);
-                  console.log(`✅ Block mounted successfully: ${blockId}`);
-                  onLoad?.();
-                } catch (err: any) {
-                  console.error(`❌ Failed to mount block ${blockId}:`, err);
-                  onError?.(err);
-                }
+          // Mount on attach and run the block's cleanup on detach. StrictMode runs
+          // this twice (mount, cleanup, mount), so every mount is paired with an unmount.
+          useEffect(() => {
+            const host = mountRef.current;
+            if (!host) return;
+
+            const target = prepareMountTarget(host, { isolation, styles, reportError, emit });
+            const { element: container, context } = target;
+            targetRef.current = target;
+
+            try {
+              const props = latestPropsRef.current;
+              logger.debug('Mounting block', { blockId, props });
+              // Attach to server-rendered markup once; any later mount starts clean
+              if (initialHtml && typeof hydrateFunction === 'function' && !hydratedRef.current) {
+                hydratedRef.current = true;
+                handleRef.current = hydrateInto(container, hydrateFunction, props, context);
+              } else {
+                handleRef.current = mountInto(container, mountFunction, props, context);
               }
-            }, [mounted]);
-            
-            return (
-              <div 
-                ref={mountRef} 
-                style={{ width: '100%', height: '100%' }}
-              />
-            );
-          };
-
-          setMountedComponent(() => WrapperComponent);
-          setIsLoading(false);
-          console.log(`✅ Block ${blockId} loaded successfully on attempt ${attempt}`);
-          return; // Success - exit the retry loop
-          
-        } catch (err: any) {
-          console.error(`❌ Failed to load block ${blockId} on attempt ${attempt}:`, err);
-          
-          // Check if this is a federation container error that might resolve with retry
-          const isFederationError = err.message?.includes('Federation container not found') || 
-                                  err.message?.includes('container not found') ||
-                                  err.message?.includes('is not a function');
-          
-          if (isFederationError && attempt < maxRetries) {
-            const delay = baseDelay * Math.pow(2, attempt - 1); // Exponential backoff
-            console.log(`⏳ Retrying block ${blockId} in ${delay}ms... (attempt ${attempt + 1}/${maxRetries})`);
-            await new Promise(resolve => setTimeout(resolve, delay));
-            continue; // Try again
-          }
+              mountedPropsRef.current = props;
+              logger.info('Block mounted', { blockId });
+              if (!loadReportedRef.current) {
+                loadReportedRef.current = true;
+                onLoadRef.current?.();
+              }
+            } catch (err: any) {
+              logger.error('Failed to mount block', { blockId, error: err });
+              reportRuntimeError(new BlockRuntimeError(blockId, 'mount', err));
+            }
+
+            return () => {
+              const handle = handleRef.current;
+              handleRef.current = null;
+              try {
+                logger.debug('Unmounting block', { blockId });
+                unmountFrom(container, handle);
+              } catch (err: any) {
+                logger.error('Failed to clean up block', { blockId, error: err });
+              }
+              target.release();
+            };
+          }, []);
+
+          // Push prop changes into the already-mounted block
+          useEffect(() => {
+            const handle = handleRef.current;
+            const target = targetRef.current;
+            if (!handle || !target) return;
+            if (arePropsShallowEqual(mountedPropsRef.current, mountProps)) return;
+
+            mountedPropsRef.current = mountProps;
+            try {
+              if (handle.update) {
+                logger.debug('Updating props', { blockId, props: mountProps });
+                handle.update(mountProps);
+              } else {
+                // Block only returned a cleanup function - fall back to remounting
+                logger.debug('Remounting block with new props', { blockId, props: mountProps });
+                handleRef.current = null;
+                unmountFrom(target.element, handle);
+                handleRef.current = mountInto(target.element, mountFunction, mountProps, target.context);
+              }
+            } catch (err: any) {
+              logger.error('Failed to update block', { blockId, error: err });
+              reportRuntimeError(new BlockRuntimeError(blockId, 'update', err));
+            }
+          }, [mountProps]);
           
-          // If this was the last attempt or not a retryable error, fail
-          console.error(`❌ Final failure loading block ${blockId}:`, err);
-          console.error(`❌ Error stack:`, err.stack);
-          console.error(`❌ Error details:`, {
-            name: err.name,
-            message: err.message,
-            cause: err.cause,
-            attempts: attempt
-          });
-          setError(err);
-          setIsLoading(false);
-          onError?.(err);
-          return;
-        }
+          return (
+            <div 
+              ref={mountRef} 
+              style={{ width: '100%', height: '100%' }}
+              dangerouslySetInnerHTML={initialHtml ? { __html: initialHtml } : undefined}
+            />
+          );
+        };
+
+        setMountedComponent(() => WrapperComponent);
+        setIsLoading(false);
+        logger.info('Block loaded', { blockId });
+        
+      } catch (err: any) {
+        if (!isActive) return;
+
+        logger.error('Final failure loading block', {
+          blockId,
+          error: err,
+          name: err.name,
+          message: err.message,
+          cause: err.cause
+        });
+        setError(err);
+        setIsLoading(false);
+        onErrorRef.current?.(err);
       }
     };
 
     loadAndMount();
-  }, [blockId, validatedProps, onLoad, onError]); // Include validatedProps in deps
+
+    return () => {
+      isActive = false;
+    };
+  }, [blockId, version, source, inView, retryCount, isolation]); // Props are pushed into the mounted block, not reloaded
+
+  // Route uncaught errors and rejections from the block's own code to the error state
+  useEffect(() => {
+    if (!MountedComponent || !loadedModuleRef.current) return;
+
+    const scriptUrls = federationLoader.getModuleScriptUrls(loadedModuleRef.current);
+    if (scriptUrls.length === 0) return;
+
+    return watchBlockErrors(scriptUrls, err => {
+      logger.error('Uncaught error from block', { blockId, error: err });
+      reportRuntimeError(new BlockRuntimeError(blockId, 'async', err));
+    });
+  }, [MountedComponent, blockId, reportRuntimeError]);
+
+  // Show server-rendered markup until the block takes over, instead of a loading state
+  if (isLoading && serverHtml) {
+    return (
+      <div 
+        ref={setContainer}
+        className={className} 
+        style={{ width: '100%', height: '100%', ...style }}
+        data-mexty-id={dataMextyId}
+      >
+        <div
+          style={{ width: '100%', height: '100%' }}
+          dangerouslySetInnerHTML={{ __html: serverHtml }}
+        />
+      </div>
+    );
+  }
 
   // Render loading state
-  if (isLoading) {
+  if (isLoading || awaitingSchema) {
     return (
       <div 
+        ref={setContainer}
         className={className} 
         style={{ width: '100%', height: '100%', ...style }}
         data-mexty-id={dataMextyId}
@@ -304,13 +463,16 @@ const Block: React.FC<BlockProps> = ({
   }
 
   // Render error state
-  if (error) {
+  const displayedError = error || schemaError || validationError;
+  if (displayedError) {
     return (
       <div 
+        ref={setContainer}
         className={className} 
         style={{ width: '100%', height: '100%', ...style }}
         data-mexty-id={dataMextyId}
       >
+        {errorFallback ? errorFallback(displayedError, retry) : (
         <div style={{
           padding: '1rem',
           border: '1px solid #fee',
@@ -325,22 +487,37 @@ const Block: React.FC<BlockProps> = ({
             Block ID: {blockId}
           </div>
           <div style={{ fontSize: '0.875rem', marginTop: '0.25rem' }}>
-            Error: {error.message}
+            Error: {displayedError.message}
           </div>
+          <button
+            type="button"
+            onClick={retry}
+            style={{ marginTop: '0.75rem', fontSize: '0.875rem', cursor: 'pointer' }}
+          >
+            Retry
+          </button>
         </div>
+        )}
       </div>
     );
   }
 
-  // Render the mounted component
+  // Render the mounted component, or hold its space while it's unmounted off-screen
   if (MountedComponent) {
     return (
       <div 
+        ref={setContainer}
         className={className} 
         style={{ width: '100%', height: '100%', ...style }}
         data-mexty-id={dataMextyId}
       >
-        <MountedComponent />
+        {unmountWhenHidden && !isNear ? (
+          <div style={{ width: '100%', height: lastHeight ?? '100%' }} />
+        ) : (
+          <BlockErrorBoundary blockId={blockId} onError={reportRuntimeError}>
+            <MountedComponent mountProps={stableProps} />
+          </BlockErrorBoundary>
+        )}
       </div>
     );
   }
@@ -0,0 +1,54 @@
+import React from 'react';
+import { BlockRuntimeError } from '../utils/errors';
+import { createLogger } from '../utils/logger';
+
+const logger = createLogger('BlockErrorBoundary');
+
+export interface BlockErrorBoundaryProps {
+  blockId?: string;
+  children?: React.ReactNode;
+  // Rendered instead of the children after a crash; call retry() to render them again
+  fallback?: (error: Error, retry: () => void) => React.ReactNode;
+  onError?: (error: Error) => void;
+  onRetry?: () => void;
+}
+
+interface BlockErrorBoundaryState {
+  error: Error | null;
+}
+
+/**
+ * Error boundary that keeps a crashing block from taking down the host tree.
+ * Render errors are wrapped in a BlockRuntimeError before reaching onError/fallback.
+ */
+export class BlockErrorBoundary extends React.Component<BlockErrorBoundaryProps, BlockErrorBoundaryState> {
+  state: BlockErrorBoundaryState = { error: null };
+
+  static getDerivedStateFromError(error: unknown): Partial<BlockErrorBoundaryState> {
+    return { error: error instanceof Error ? error : new Error(String(error)) };
+  }
+
+  componentDidCatch(error: unknown, info: React.ErrorInfo): void {
+    const runtimeError = error instanceof BlockRuntimeError
+      ? error
+      : new BlockRuntimeError(this.props.blockId, 'render', error);
+    logger.error('Block crashed during render', { blockId: this.props.blockId, error, componentStack: info.componentStack });
+    this.setState({ error: runtimeError });
+    this.props.onError?.(runtimeError);
+  }
+
+  retry = (): void => {
+    this.setState({ error: null });
+    this.props.onRetry?.();
+  };
+
+  render(): React.ReactNode {
+    const { error } = this.state;
+    if (error) {
+      return this.props.fallback ? this.props.fallback(error, this.retry) : null;
+    }
+    return this.props.children;
+  }
+}
+
+export default BlockErrorBoundary;
@@ -0,0 +1,35 @@
+import React, { createContext, useContext, useState } from 'react';
+import { hydrateBlockState } from '../utils/ssr';
+import type { BlockSSRState } from '../utils/ssr';
+import { isBrowser } from '../utils/environment';
+
+const BlockSSRContext = createContext<BlockSSRState | null>(null);
+
+export interface BlockSSRProviderProps {
+  state?: BlockSSRState | null;
+  children?: React.ReactNode;
+}
+
+/**
+ * Makes server-preloaded block state available to Block and named blocks.
+ * Render it with the same state on the server and the client so hydration matches.
+ * Usage: <BlockSSRProvider state={await preloadBlocksForSSR([...])}>...</BlockSSRProvider>
+ */
+export const BlockSSRProvider: React.FC<BlockSSRProviderProps> = ({ state, children }) => {
+  // Seed the loader once on the client; on the server every request gets its own state
+  useState(() => {
+    if (state && isBrowser()) {
+      hydrateBlockState(state);
+    }
+    return null;
+  });
+
+  return <BlockSSRContext.Provider value={state || null}>{children}</BlockSSRContext.Provider>;
+};
+
+/**
+ * Read the SSR state provided by the nearest BlockSSRProvider, if any
+ */
+export function useBlockSSRState(): BlockSSRState | null {
+  return useContext(BlockSSRContext);
+}
@@ -1,16 +1,45 @@
 import React, { useState, useEffect } from 'react';
 import Block, { BlockProps } from './Block';
 import { blockRegistry } from '../utils/blockRegistry';
+import { createLogger } from '../utils/logger';
+import { BlockNotInRegistryError } from '../utils/errors';
+import type { RetryPolicy } from '../utils/retry';
+import type { BlockIsolation } from '../utils/federationLoader';
+import type { ValidationIssue, ValidationMode } from '../utils/propsValidation';
+import { getComponentKey } from '../utils/ssr';
+import { useBlockSSRState } from './BlockSSRProvider';
+
+const logger = createLogger('NamedBlock');
 
 export interface NamedBlockProps {
   props?: any;
+  // Exact version (`1.2.3`) or semver range (`^1.2.0`) to pin the block to
+  version?: string;
+  // Named source to fetch the block from, instead of the source whose registry lists the component
+  source?: string;
   onLoad?: () => void;
   onError?: (error: Error) => void;
   fallback?: React.ReactNode;
+  // Replaces the default error UI of the loaded block, see BlockProps
+  errorFallback?: (error: Error, retry: () => void) => React.ReactNode;
   className?: string;
   style?: React.CSSProperties;
   // Enable type checking for props
   validateProps?: boolean;
+  // Schema validation behaviour and issue reporting, see BlockProps
+  validationMode?: ValidationMode;
+  onValidationError?: (issues: ValidationIssue[]) => void;
+  // Override the global retry policy for this block
+  retryPolicy?: Partial<RetryPolicy>;
+  // Lazy loading and off-screen unmounting, see BlockProps
+  loading?: 'eager' | 'lazy';
+  rootMargin?: string;
+  unmountWhenHidden?: boolean;
+  unmountMargin?: string;
+  // Style isolation for the mounted block, see BlockProps
+  isolation?: BlockIsolation;
+  // Catch-all for events the block emits, see BlockProps
+  onBlockEvent?: (name: string, payload?: any) => void;
 }
 
 /**
@@ -19,35 +48,55 @@ export interface NamedBlockProps {
 export function createNamedBlock(componentName: string, options: {
   validateProps?: boolean;
   enableTypedProps?: boolean;
+  version?: string;
 } = {}): React.FC<NamedBlockProps> {
   const NamedBlockComponent: React.FC<NamedBlockProps> = (componentProps) => {
-    const [blockId, setBlockId] = useState<string | null>(null);
+    const requestedVersion = componentProps.version ?? options.version;
+    // Registry lookup done on the server, so SSR output and first client render match
+    const ssrState = useBlockSSRState();
+    const preResolved = ssrState?.resolved[getComponentKey(componentName, requestedVersion)];
+    const [blockId, setBlockId] = useState<string | null>(preResolved?.blockId ?? null);
+    const [resolvedVersion, setResolvedVersion] = useState<string | undefined>(preResolved?.version);
+    const [resolvedSource, setResolvedSource] = useState<string | undefined>(preResolved?.source);
     const [error, setError] = useState<Error | null>(null);
-    const [isLoading, setIsLoading] = useState(true);
+    const [isLoading, setIsLoading] = useState(!preResolved);
 
     useEffect(() => {
+      if (preResolved) {
+        setBlockId(preResolved.blockId);
+        setResolvedVersion(preResolved.version);
+        setResolvedSource(preResolved.source);
+        setIsLoading(false);
+        return;
+      }
+
       const loadBlockId = async () => {
         try {
           setIsLoading(true);
           setError(null);
           
-          const foundBlockId = await blockRegistry.getBlockId(componentName);
+          const resolved = await blockRegistry.resolveBlock(componentName, requestedVersion);
           
-          if (!foundBlockId) {
-            throw new Error(`Component "${componentName}" not found in registry. Available components: ${(await blockRegistry.getAvailableComponents()).join(', ')}`);
+          if (!resolved) {
+            throw new BlockNotInRegistryError(componentName, {
+              availableComponents: await blockRegistry.getAvailableComponents()
+            });
           }
           
-          setBlockId(foundBlockId);
+          setBlockId(resolved.blockId);
+          setResolvedVersion(resolved.version);
+          setResolvedSource(resolved.source);
         } catch (err: any) {
-          console.error(`❌ Failed to resolve component "${componentName}":`, err);
+          logger.error('Failed to resolve component', { componentName, error: err });
           setError(err);
+          componentProps.onError?.(err);
         } finally {
           setIsLoading(false);
         }
       };
 
       loadBlockId();
-    }, [componentName]);
+    }, [componentName, requestedVersion, preResolved]);
 
     // Show loading state while resolving component name
     if (isLoading) {
@@ -101,13 +150,25 @@ export function createNamedBlock(componentName: string, options: {
     return (
       <Block
         blockId={blockId}
+        version={resolvedVersion}
+        source={componentProps.source ?? resolvedSource}
         props={componentProps.props}
         onLoad={componentProps.onLoad}
         onError={componentProps.onError}
         fallback={componentProps.fallback}
+        errorFallback={componentProps.errorFallback}
         className={componentProps.className}
         style={componentProps.style}
         validateProps={shouldValidateProps}
+        validationMode={componentProps.validationMode}
+        onValidationError={componentProps.onValidationError}
+        retryPolicy={componentProps.retryPolicy}
+        loading={componentProps.loading}
+        rootMargin={componentProps.rootMargin}
+        unmountWhenHidden={componentProps.unmountWhenHidden}
+        unmountMargin={componentProps.unmountMargin}
+        isolation={componentProps.isolation}
+        onBlockEvent={componentProps.onBlockEvent}
       />
     );
   };
@@ -126,14 +187,13 @@ export function createTypedBlock<T = any>(componentName: string, options: {
   defaultProps?: Partial<T>;
   validateProps?: boolean;
 } = {}): React.FC<Omit<NamedBlockProps, 'props'> & { props?: T }> {
-  
+  // Created once so the block keeps its component identity (and mounted state) across renders
+  const NamedBlock = createNamedBlock(componentName, {
+    validateProps: options.validateProps ?? true,
+    enableTypedProps: true
+  });
+
   const TypedBlockComponent: React.FC<Omit<NamedBlockProps, 'props'> & { props?: T }> = (componentProps) => {
-    // Create the named block with validation enabled by default for typed blocks
-    const NamedBlock = createNamedBlock(componentName, { 
-      validateProps: options.validateProps ?? true,
-      enableTypedProps: true 
-    });
-    
     // Merge with default props if provided
     const mergedProps = options.defaultProps 
       ? { ...options.defaultProps, ...componentProps.props }
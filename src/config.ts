@@ -1,25 +1,151 @@
 import { federationLoader } from './utils/federationLoader';
 import { blockRegistry } from './utils/blockRegistry';
+import { createLogger, setLogLevel, setLogSink } from './utils/logger';
+import type { LogLevel, LogSink } from './utils/logger';
+import { setRetryPolicy } from './utils/retry';
+import type { RetryPolicy } from './utils/retry';
+import type { CacheDurations, ServerModuleLoader } from './utils/federationLoader';
+import { setTrustPolicy } from './utils/trustPolicy';
+import type { TrustPolicy } from './utils/trustPolicy';
+import { setAllowedScriptOrigins, setScriptNonce } from './utils/scriptSecurity';
+import { setPersistentCache } from './utils/persistentCache';
+import { setSharedModules } from './utils/shareScope';
+import type { SharedModule } from './utils/shareScope';
+import { setImportMap } from './utils/importMap';
+import type { ImportMap } from './utils/importMap';
+import { setBlockSources } from './utils/sources';
+import type { BlockSource } from './utils/sources';
+import { setAuthToken, setScriptAuth } from './utils/auth';
+import type { AuthToken, ScriptAuth } from './utils/auth';
+import type { PersistentCacheOptions } from './utils/persistentCache';
+
+const logger = createLogger('config');
 
 export interface MextBlockConfig {
   serverUrl?: string;
-  cacheDuration?: number;
+  // More block servers read alongside serverUrl; their registries are merged by priority
+  sources?: BlockSource[];
+  // Bearer token, or a provider asked again after a 401, for registry and metadata requests
+  // to serverUrl; other sources set their own or opt in with `useGlobalToken`.
+  // `null` makes requests anonymous again.
+  authToken?: AuthToken | null;
+  // How scripts of private blocks are loaded: 'fetch' downloads them with the token,
+  // a function returns a signed URL. Default 'none'.
+  scriptAuth?: ScriptAuth;
+  // How long cached data is trusted, in ms: one duration for every layer, or per layer
+  cacheDuration?: number | Partial<CacheDurations>;
+  /** @deprecated Use `logLevel`. `true` maps to 'debug', `false` to 'silent'. */
   enableLogging?: boolean;
+  // Global level, or per-namespace levels with '*' as the default (e.g. { '*': 'warn', federationLoader: 'debug' })
+  logLevel?: LogLevel | { [namespace: string]: LogLevel };
+  // Receives every structured log event instead of the console
+  logger?: LogSink;
+  // Retry behaviour for registry, metadata and module loads; components can override per instance
+  retryPolicy?: Partial<RetryPolicy>;
+  // How the server imports a block's `ssrUrl` bundle during server rendering
+  serverModuleLoader?: ServerModuleLoader;
+  // Isolation AuthorBlock uses per author, e.g. { default: 'iframe', authors: { mext: 'none' } }
+  trustPolicy?: TrustPolicy;
+  // Origins federation scripts may load from ('https://cdn.example.com', 'https://*.example.com');
+  // the serverUrl and source origins are always allowed. Unset allows any origin.
+  allowedScriptOrigins?: string[];
+  // CSP nonce for injected scripts; pass a function when it changes per page
+  cspNonce?: string | (() => string | undefined);
+  // Keep the registry, block metadata and optionally script source across page loads; `null` turns it off
+  persistentCache?: PersistentCacheOptions | null;
+  // Libraries offered to blocks through the federation share scope, on top of the host's React;
+  // `false` stops sharing one
+  sharedModules?: { [name: string]: SharedModule | false };
+  // Import map added to the page before the first ES module block loads
+  importMap?: ImportMap | null;
 }
 
 /**
  * Configure the mext-block package
  */
 export function configure(config: MextBlockConfig): void {
+  if (config.logger) {
+    setLogSink(config.logger);
+  }
+
+  if (config.logLevel !== undefined) {
+    setLogLevel(config.logLevel);
+  } else if (config.enableLogging !== undefined) {
+    setLogLevel(config.enableLogging ? 'debug' : 'silent');
+  }
+
+  if (config.retryPolicy) {
+    setRetryPolicy(config.retryPolicy);
+  }
+
+  if (config.serverModuleLoader) {
+    federationLoader.setServerModuleLoader(config.serverModuleLoader);
+  }
+
+  if (config.trustPolicy) {
+    setTrustPolicy(config.trustPolicy);
+  }
+
+  if (config.allowedScriptOrigins) {
+    setAllowedScriptOrigins(config.allowedScriptOrigins);
+  }
+
+  if (config.cspNonce !== undefined) {
+    setScriptNonce(config.cspNonce);
+  }
+
+  if (config.cacheDuration !== undefined) {
+    const durations: Partial<CacheDurations> = typeof config.cacheDuration === 'number'
+      ? { registry: config.cacheDuration, metadata: config.cacheDuration, modules: config.cacheDuration }
+      : config.cacheDuration;
+    if (durations.registry !== undefined) {
+      blockRegistry.setCacheDuration(durations.registry);
+    }
+    federationLoader.setCacheDurations(durations);
+  }
+
+  if (config.persistentCache !== undefined) {
+    setPersistentCache(config.persistentCache);
+  }
+
+  if (config.sharedModules) {
+    setSharedModules(config.sharedModules);
+  }
+
+  if (config.importMap !== undefined) {
+    setImportMap(config.importMap);
+  }
+
   if (config.serverUrl) {
     federationLoader.setServerUrl(config.serverUrl);
     blockRegistry.setServerUrl(config.serverUrl);
   }
 
-  if (config.enableLogging !== undefined) {
-    // Future: control logging level
-    console.log(`🔧 MEXT Block logging ${config.enableLogging ? 'enabled' : 'disabled'}`);
+  if (config.sources) {
+    setBlockSources(config.sources);
+  }
+
+  if (config.authToken !== undefined) {
+    setAuthToken(config.authToken);
+  }
+
+  if (config.scriptAuth) {
+    setScriptAuth(config.scriptAuth);
   }
 
-  console.log('🔧 MEXT Block configured:', config);
+  logger.info('MEXT Block configured', {
+    ...config,
+    logger: config.logger ? 'custom' : undefined,
+    serverModuleLoader: config.serverModuleLoader ? 'custom' : undefined,
+    trustPolicy: typeof config.trustPolicy === 'function' ? 'custom' : config.trustPolicy,
+    cspNonce: config.cspNonce !== undefined ? 'set' : undefined,
+    sharedModules: config.sharedModules ? Object.keys(config.sharedModules) : undefined,
+    // Headers and tokens are credentials
+    sources: config.sources?.map(({ name, url, priority }) => ({ name, url, priority })),
+    authToken: config.authToken ? 'set' : config.authToken,
+    scriptAuth: typeof config.scriptAuth === 'function' ? 'signed-url' : config.scriptAuth,
+    persistentCache: typeof config.persistentCache?.storage === 'object'
+      ? { ...config.persistentCache, storage: 'custom' }
+      : config.persistentCache
+  });
 } 
\ No newline at end of file
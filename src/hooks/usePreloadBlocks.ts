@@ -0,0 +1,36 @@
+import { useEffect } from 'react';
+import { preloadBlock, prefetchBlock } from '../utils/preload';
+import type { PreloadTarget, PrefetchOptions } from '../utils/preload';
+import { createLogger } from '../utils/logger';
+
+const logger = createLogger('preload');
+
+export interface UsePreloadBlocksOptions extends PrefetchOptions {
+  // 'preload' downloads and executes scripts, 'prefetch' only adds link hints
+  mode?: 'preload' | 'prefetch';
+  enabled?: boolean;
+}
+
+/**
+ * Warm up blocks a page is about to render. Targets are compared by value,
+ * so passing a new array with the same entries doesn't trigger new requests.
+ * Usage: usePreloadBlocks(['64f1c2...', { author: 'johnsmith', component: 'Chart' }])
+ */
+export function usePreloadBlocks(targets: PreloadTarget[], options: UsePreloadBlocksOptions = {}): void {
+  const { mode = 'preload', enabled = true, rel, retryPolicy } = options;
+  const targetsKey = JSON.stringify(targets);
+
+  useEffect(() => {
+    if (!enabled) return;
+
+    const parsedTargets: PreloadTarget[] = JSON.parse(targetsKey);
+    parsedTargets.forEach(target => {
+      const warmUp = mode === 'prefetch'
+        ? prefetchBlock(target, { rel, retryPolicy })
+        : preloadBlock(target, { retryPolicy });
+
+      warmUp.catch(error => logger.warn('Failed to warm up block', { target, mode, error }));
+    });
+    // retryPolicy is read once per target set, like Block's per-instance override
+  }, [targetsKey, mode, enabled, rel]);
+}
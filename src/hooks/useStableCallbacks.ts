@@ -0,0 +1,46 @@
+import { useRef } from 'react';
+import { arePropsShallowEqual } from '../utils/mountHandle';
+
+type Callback = (...args: any[]) => any;
+
+/**
+ * Replace function props with wrappers whose identity never changes and that
+ * always call the latest function. Passing a new inline callback on every render
+ * therefore doesn't count as a prop change, so the block isn't updated or remounted.
+ * Returns the previous object when nothing else changed.
+ */
+export function useStableCallbacks<T>(props: T): T {
+  const latestRef = useRef<any>(props);
+  const wrappersRef = useRef<Map<string, Callback>>(new Map());
+  const previousRef = useRef<T | null>(null);
+  latestRef.current = props;
+
+  if (!props || typeof props !== 'object' || Array.isArray(props)) {
+    return props;
+  }
+
+  const stable: any = {};
+  Object.entries(props as { [key: string]: any }).forEach(([key, value]) => {
+    if (typeof value !== 'function') {
+      stable[key] = value;
+      return;
+    }
+
+    let wrapper = wrappersRef.current.get(key);
+    if (!wrapper) {
+      wrapper = (...args: any[]) => {
+        const current = latestRef.current?.[key];
+        return typeof current === 'function' ? current(...args) : undefined;
+      };
+      wrappersRef.current.set(key, wrapper);
+    }
+    stable[key] = wrapper;
+  });
+
+  if (previousRef.current && arePropsShallowEqual(previousRef.current, stable)) {
+    return previousRef.current;
+  }
+
+  previousRef.current = stable;
+  return stable;
+}
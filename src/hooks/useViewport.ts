@@ -0,0 +1,70 @@
+import { useEffect, useRef, useState } from 'react';
+
+export interface ViewportOptions {
+  // Skip observing entirely
+  enabled?: boolean;
+  // Margin around the viewport, e.g. '200px' to react before the element is visible
+  rootMargin?: string;
+}
+
+/**
+ * Call `onEnter` the first time the element comes within `rootMargin` of the viewport.
+ * Fires immediately where IntersectionObserver isn't available.
+ */
+export function useViewportTrigger(
+  element: Element | null,
+  onEnter: () => void,
+  { enabled = true, rootMargin = '200px' }: ViewportOptions = {}
+): void {
+  const onEnterRef = useRef(onEnter);
+  onEnterRef.current = onEnter;
+
+  useEffect(() => {
+    if (!enabled || !element) return;
+
+    if (typeof IntersectionObserver === 'undefined') {
+      onEnterRef.current();
+      return;
+    }
+
+    const observer = new IntersectionObserver(entries => {
+      if (entries.some(entry => entry.isIntersecting)) {
+        observer.disconnect();
+        onEnterRef.current();
+      }
+    }, { rootMargin });
+
+    observer.observe(element);
+    return () => observer.disconnect();
+  }, [element, enabled, rootMargin]);
+}
+
+/**
+ * Track whether the element is within `rootMargin` of the viewport. Also returns the
+ * element's height when it last left, so callers can hold its space with a placeholder.
+ */
+export function useNearViewport(
+  element: Element | null,
+  { enabled = true, rootMargin = '1000px' }: ViewportOptions = {}
+): { isNear: boolean; lastHeight?: number } {
+  const [state, setState] = useState<{ isNear: boolean; lastHeight?: number }>({ isNear: true });
+
+  useEffect(() => {
+    if (!enabled || !element || typeof IntersectionObserver === 'undefined') {
+      setState({ isNear: true });
+      return;
+    }
+
+    const observer = new IntersectionObserver(entries => {
+      const entry = entries[entries.length - 1];
+      setState(previous => entry.isIntersecting
+        ? { isNear: true, lastHeight: previous.lastHeight }
+        : { isNear: false, lastHeight: previous.isNear ? entry.boundingClientRect.height : previous.lastHeight });
+    }, { rootMargin });
+
+    observer.observe(element);
+    return () => observer.disconnect();
+  }, [element, enabled, rootMargin]);
+
+  return state;
+}
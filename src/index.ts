@@ -13,63 +13,142 @@ export type { AuthorBlockProps } from './components/AuthorBlock';
 
 // Registry and federation utilities
 export { blockRegistry, createRegistryEntry } from './utils/blockRegistry';
-export type { BlockRegistry, BlockRegistryEntry, AuthorNamespaceRegistry } from './utils/blockRegistry';
-export { federationLoader } from './utils/federationLoader';
-export type { BlockMetadata, FederationModule, MountFunction } from './utils/federationLoader';
+export type { BlockRegistry, BlockRegistryEntry, AuthorNamespaceRegistry, ResolvedBlock, SourceRegistry } from './utils/blockRegistry';
+export { setBlockSources, getBlockSources, DEFAULT_SOURCE } from './utils/sources';
+export type { BlockSource } from './utils/sources';
+export { setAuthToken, setScriptAuth } from './utils/auth';
+export type { AuthToken, AuthTokenProvider, ScriptAuth, ScriptUrlSigner } from './utils/auth';
+export { federationLoader, DEFAULT_CACHE_DURATIONS } from './utils/federationLoader';
+export type {
+  BlockMetadata,
+  CacheDurations,
+  BlockVersionInfo,
+  FederationModule,
+  MountFunction,
+  MountHandle,
+  MountContext,
+  BlockIsolation,
+  LoadModuleOptions,
+  MetadataRequestOptions,
+  MetadataBatchRequest,
+  BlockFormat,
+  FederationEntry,
+  ServerRenderFunction,
+  ServerModuleLoader
+} from './utils/federationLoader';
+
+// Preloading
+export { preloadBlock, prefetchBlock } from './utils/preload';
+export type { PreloadTarget, PreloadOptions, PrefetchOptions } from './utils/preload';
+export { usePreloadBlocks } from './hooks/usePreloadBlocks';
+export type { UsePreloadBlocksOptions } from './hooks/usePreloadBlocks';
+
+// Server-side rendering
+export { BlockSSRProvider, useBlockSSRState } from './components/BlockSSRProvider';
+export type { BlockSSRProviderProps } from './components/BlockSSRProvider';
+export {
+  preloadBlocksForSSR,
+  createBlockSSRState,
+  serializeBlockState,
+  getBlockStateScript,
+  readBlockState,
+  hydrateBlockState,
+  getRenderKey,
+  BLOCK_STATE_GLOBAL
+} from './utils/ssr';
+export type { BlockSSRState, SSRBlockRequest } from './utils/ssr';
+
+// Error types
+export {
+  BlockLoadError,
+  MetadataFetchError,
+  BuildNotReadyError,
+  MissingFederationUrlError,
+  ScriptLoadError,
+  ScriptOriginNotAllowedError,
+  UnauthorizedError,
+  ContainerNotFoundError,
+  ContainerCollisionError,
+  MissingMountError,
+  BlockNotInRegistryError,
+  VersionNotFoundError,
+  RegistryFetchError,
+  TimeoutError,
+  BrowserRequiredError,
+  ServerRenderError,
+  BlockRuntimeError,
+  PropsValidationError,
+  isBlockLoadError
+} from './utils/errors';
+export type { BlockErrorCode } from './utils/errors';
+
+// Props validation
+export { validateBlockProps } from './utils/propsValidation';
+export type {
+  PropSchema,
+  PropType,
+  BlockPropsSchema,
+  ValidationMode,
+  ValidationIssue,
+  ValidationResult
+} from './utils/propsValidation';
+
+// Sandboxing untrusted authors
+export { setTrustPolicy, getAuthorIsolation } from './utils/trustPolicy';
+export type { TrustPolicy } from './utils/trustPolicy';
+export type { SandboxMessage } from './utils/sandbox';
+
+// Script security
+export { setAllowedScriptOrigins, setScriptNonce, isScriptOriginAllowed } from './utils/scriptSecurity';
+export type { ScriptAttributes } from './utils/scriptSecurity';
+
+// Module Federation share scope
+export { setSharedModules, getSharedModules, getShareScope } from './utils/shareScope';
+export type { SharedModule, ShareScope } from './utils/shareScope';
+
+// ES module blocks
+export { setImportMap, getImportMap } from './utils/importMap';
+export type { ImportMap } from './utils/importMap';
+
+// Persistent cache
+export {
+  setPersistentCache,
+  clearPersistentCache,
+  createMemoryStorage,
+  createLocalStorageStorage,
+  createIndexedDBStorage
+} from './utils/persistentCache';
+export type { PersistentStorage, PersistentCacheOptions } from './utils/persistentCache';
+
+// Crash isolation
+export { BlockErrorBoundary } from './components/BlockErrorBoundary';
+export type { BlockErrorBoundaryProps } from './components/BlockErrorBoundary';
+export { watchBlockErrors } from './utils/errorCapture';
+
+// Retry policy
+export { DEFAULT_RETRY_POLICY, setRetryPolicy, getRetryPolicy } from './utils/retry';
+export type { RetryPolicy } from './utils/retry';
 
 // Configuration
 export { configure } from './config';
 export type { MextBlockConfig } from './config';
 
-// Pre-created named components (these will be dynamically generated)
-// For now, we'll create some example components manually
-// In the future, these can be auto-generated by mexty
+// Logging
+export { createLogger, setLogLevel, setLogSink, consoleSink } from './utils/logger';
+export type { LogLevel, LogEvent, LogSink, Logger } from './utils/logger';
 
-// Example named components - these can be updated via CLI
+// Named components are generated from the registry into ./namedExports (see generateExports in @mexty/block/codegen)
+import * as namedExports from './namedExports';
 import { createNamedBlock, createTypedBlock } from './components/NamedBlock';
 import { blockRegistry } from './utils/blockRegistry';
 import { federationLoader } from './utils/federationLoader';
 import { configure } from './config';
 import { withBlockMetadata } from './components/NamedBlock';
 
-// Virtual Game component example
-export const VirtualGame = createNamedBlock('VirtualGame');
-
-// 3D Scene component example  
-export const ThreeScene = createNamedBlock('ThreeScene');
-
-// Chart component example
-export const Chart = createNamedBlock('Chart');
-
-// Form component example
-export const Form = createNamedBlock('Form');
-
-// Video Player component example
-export const VideoPlayer = createNamedBlock('VideoPlayer');
-
-// Code Editor component example
-export const CodeEditor = createNamedBlock('CodeEditor');
-
-// Image Gallery component example
-export const ImageGallery = createNamedBlock('ImageGallery');
-
-// Analytics Dashboard component example
-export const AnalyticsDashboard = createNamedBlock('AnalyticsDashboard');
-
-// Note: In production, these named exports would be generated automatically
-// by the mexty based on the registry from the server
-
 // Re-export everything as default for convenience
 const MextBlock = {
   Block: BlockComponent,
-  VirtualGame,
-  ThreeScene,
-  Chart,
-  Form,
-  VideoPlayer,
-  CodeEditor,
-  ImageGallery,
-  AnalyticsDashboard,
+  ...namedExports,
   createNamedBlock,
   createTypedBlock,
   withBlockMetadata,
@@ -0,0 +1,175 @@
+import { createLogger } from './logger';
+import { DEFAULT_SOURCE } from './sources';
+import type { BlockSource } from './sources';
+
+const logger = createLogger('auth');
+
+/**
+ * Returns a bearer token for a source. Called again with `refresh: true` after
+ * the server rejects the current token with a 401.
+ */
+export type AuthTokenProvider = (context: { source: string; refresh: boolean }) =>
+  string | null | undefined | Promise<string | null | undefined>;
+
+export type AuthToken = string | AuthTokenProvider;
+
+/**
+ * Returns a signed URL to load a private block's script from instead of `url`
+ */
+export type ScriptUrlSigner = (url: string, context: { blockId: string; source: string; token: string }) => string | Promise<string>;
+
+/**
+ * How scripts of blocks from a source with a token are loaded: 'none' loads them
+ * without credentials (default), 'fetch' downloads them with the token and runs
+ * them from a blob: URL, and a signer swaps in a signed URL
+ */
+export type ScriptAuth = 'none' | 'fetch' | ScriptUrlSigner;
+
+let globalToken: AuthToken | null = null;
+let scriptAuth: ScriptAuth = 'none';
+// Tokens from providers, per source, until the server rejects them
+const tokens = new Map<string, Promise<string | undefined>>();
+// Bumped by setAuthToken, so data fetched with the previous token isn't served from memory
+let authGeneration = 0;
+
+/**
+ * Token sent to the 'default' source (and sources that opt in with `useGlobalToken`)
+ * when they have no token of their own, or `null` for anonymous requests.
+ * Call it again when the user changes.
+ */
+export function setAuthToken(token: AuthToken | null): void {
+  globalToken = token;
+  tokens.clear();
+  authGeneration++;
+}
+
+export function getAuthGeneration(): number {
+  return authGeneration;
+}
+
+export function setScriptAuth(mode: ScriptAuth): void {
+  scriptAuth = mode;
+}
+
+export function getScriptAuth(): ScriptAuth {
+  return scriptAuth;
+}
+
+/**
+ * A source's own token, else the global one if the source may have it. Other
+ * servers aren't trusted with the global token just by being configured.
+ */
+function getTokenSetting(source: BlockSource): AuthToken | null {
+  if (source.authToken !== undefined) return source.authToken;
+  return source.name === DEFAULT_SOURCE || source.useGlobalToken ? globalToken : null;
+}
+
+export function hasAuthToken(source: BlockSource): boolean {
+  return getTokenSetting(source) !== null;
+}
+
+/**
+ * The token for a source. A provider is asked once and its token reused until
+ * `refresh` is set.
+ */
+export function getAuthToken(source: BlockSource, refresh = false): Promise<string | undefined> {
+  const setting = getTokenSetting(source);
+  if (setting === null) return Promise.resolve(undefined);
+  if (typeof setting === 'string') return Promise.resolve(setting);
+
+  let token = tokens.get(source.name);
+  if (!token || refresh) {
+    const request = Promise.resolve()
+      .then(() => setting({ source: source.name, refresh }))
+      .then(value => value || undefined);
+    tokens.set(source.name, request);
+    // A failed provider call is retried on the next request rather than cached
+    request.catch(() => {
+      if (tokens.get(source.name) === request) tokens.delete(source.name);
+    });
+    token = request;
+  }
+  return token;
+}
+
+/**
+ * FNV-1a, so persisted cache keys tell tokens apart without containing them
+ */
+function hashToken(token: string): string {
+  let hash = 0x811c9dc5;
+  for (let index = 0; index < token.length; index++) {
+    hash ^= token.charCodeAt(index);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(16);
+}
+
+/**
+ * Part of the persisted cache keys for a source: 'public' for anonymous requests,
+ * otherwise a hash of the current token, so what one token may see is never served
+ * to another. `undefined` when the provider fails, and nothing should be persisted.
+ */
+export async function getAuthScope(source: BlockSource): Promise<string | undefined> {
+  try {
+    const token = await getAuthToken(source);
+    return token ? `token-${hashToken(token)}` : 'public';
+  } catch (error) {
+    logger.debug('No token to scope the persistent cache with', { source: source.name, error });
+    return undefined;
+  }
+}
+
+/**
+ * Headers for a request to a source: its own headers plus the bearer token
+ */
+export function getAuthHeaders(source: BlockSource, token?: string): { [name: string]: string } {
+  return token ? { ...source.headers, Authorization: `Bearer ${token}` } : { ...source.headers };
+}
+
+function getStatus(error: any): number | undefined {
+  return error?.response?.status ?? error?.status;
+}
+
+/**
+ * Run a request to a source with its auth headers. When a provider's token is
+ * rejected with a 401, the token is refreshed and the request sent once more.
+ */
+export async function authorizedRequest<T>(source: BlockSource, request: (headers: { [name: string]: string }) => Promise<T>): Promise<T> {
+  const tokenRequest = getAuthToken(source);
+  const token = await tokenRequest;
+  try {
+    return await request(getAuthHeaders(source, token));
+  } catch (error) {
+    if (getStatus(error) !== 401 || typeof getTokenSetting(source) !== 'function') {
+      throw error;
+    }
+
+    // Another request may have refreshed the token already
+    const latest = tokens.get(source.name);
+    const refreshed = await (latest && latest !== tokenRequest ? latest : getAuthToken(source, true));
+    if (!refreshed || refreshed === token) {
+      throw error;
+    }
+
+    logger.debug('Token rejected, retrying with a refreshed token', { source: source.name });
+    return request(getAuthHeaders(source, refreshed));
+  }
+}
+
+/**
+ * Whether a status means the caller isn't allowed to see what it asked for
+ */
+export function isUnauthorizedStatus(status?: number): boolean {
+  return status === 401 || status === 403;
+}
+
+/**
+ * Tokens are only sent to the source's own origin, never to a CDN or third party
+ */
+export function isSourceOrigin(url: string, source: BlockSource): boolean {
+  try {
+    return new URL(url).origin === new URL(source.url).origin;
+  } catch {
+    return false;
+  }
+}
@@ -1,4 +1,17 @@
 import axios from 'axios';
+import { DEFAULT_CACHE_DURATIONS } from './federationLoader';
+import type { BlockVersionInfo } from './federationLoader';
+import { isExactVersion, maxSatisfying } from './semver';
+import { createLogger } from './logger';
+import { RegistryFetchError, VersionNotFoundError } from './errors';
+import { getRetryPolicy, withRetry } from './retry';
+import type { RetryPolicy } from './retry';
+import { deletePersisted, isPersistentCacheEnabled, readPersisted, writePersisted } from './persistentCache';
+import { getBlockSources, recordBlockSource } from './sources';
+import { authorizedRequest, getAuthGeneration, getAuthScope, isUnauthorizedStatus } from './auth';
+import type { BlockSource } from './sources';
+
+const logger = createLogger('blockRegistry');
 
 export interface BlockRegistryEntry {
   blockId: string;
@@ -7,8 +20,20 @@ export interface BlockRegistryEntry {
   title: string;
   description: string;
   version?: string;
+  versions?: BlockVersionInfo[]; // Other published versions, when the server lists them
   tags?: string[];
   lastUpdated: string;
+  // Name of the source whose registry listed the block
+  source?: string;
+}
+
+/**
+ * A registry entry resolved to a concrete block ID and, when requested, version
+ */
+export interface ResolvedBlock {
+  blockId: string;
+  version?: string;
+  source?: string;
 }
 
 export interface BlockRegistry {
@@ -21,12 +46,32 @@ export interface AuthorNamespaceRegistry {
   };
 }
 
+/**
+ * The registries one source serves
+ */
+export interface SourceRegistry {
+  registry: BlockRegistry;
+  authorRegistry: AuthorNamespaceRegistry;
+}
+
 class BlockRegistryManager {
   public registry: BlockRegistry = {};
   public authorRegistry: AuthorNamespaceRegistry = {};
   public serverUrl: string;
   public lastFetched: number = 0;
-  public cacheDuration: number = 5 * 60 * 1000; // 5 minutes
+  public cacheDuration: number = DEFAULT_CACHE_DURATIONS.registry;
+  // When every source last failed, so a registry served from cache isn't refetched on each call
+  public _lastFailedAttempt: number = 0;
+  // Each source's last registry, merged into `registry` and `authorRegistry`
+  public sourceRegistries: { [sourceName: string]: SourceRegistry } = {};
+  // Background refresh while a stale registry is being served
+  public _revalidating: Promise<unknown> | null = null;
+  // Restoring from the persistent cache happens once per set of sources
+  public _restoredFrom: string | null = null;
+  // The set of sources the merged registry was built from
+  public _mergedFrom: string | null = null;
+  // The token (see getAuthGeneration) `sourceRegistries` were fetched with
+  public _authGeneration = getAuthGeneration();
 
   constructor(serverUrl: string = 'https://api.v2.mext.app') {
     this.serverUrl = serverUrl;
@@ -36,38 +81,232 @@ class BlockRegistryManager {
     this.serverUrl = url;
   }
 
+  setCacheDuration(duration: number): void {
+    this.cacheDuration = duration;
+  }
+
   /**
-   * Fetch the latest registry from server
+   * Fetch the latest registry from every source, retrying per the retry policy,
+   * and merge them by source precedence. A source that fails keeps its last
+   * registry; when none of them has one, the first failure is thrown.
    */
   async fetchRegistry(): Promise<{ registry: BlockRegistry; authorRegistry: AuthorNamespaceRegistry }> {
-    try {
-      console.log('🔄 Fetching block registry from server...');
-      const response = await axios.get(`${this.serverUrl}/api/blocks/registry`);
-      
-      this.registry = response.data.registry || {};
-      this.authorRegistry = response.data.authorRegistry || {};
+    const sources = this._getSources();
+    const policy = getRetryPolicy();
+
+    // Registries fetched with another token aren't kept to fall back on
+    if (this._authGeneration !== getAuthGeneration()) {
+      this.sourceRegistries = {};
+      this._authGeneration = getAuthGeneration();
+    }
+
+    const failures = await Promise.all(sources.map(async source => {
+      const persistKey = await this._getPersistKey(source);
+      try {
+        this.sourceRegistries[source.name] = await this._fetchSourceRegistry(source, policy);
+        if (persistKey) {
+          void writePersisted(persistKey, this.sourceRegistries[source.name]);
+        }
+        return null;
+      } catch (error: any) {
+        // A source that refuses the caller doesn't keep serving what it listed before
+        if (isUnauthorizedStatus(error.status)) {
+          delete this.sourceRegistries[source.name];
+          if (persistKey) {
+            void deletePersisted(persistKey);
+          }
+        }
+        return { source, error };
+      }
+    }));
+
+    const failed = failures.filter((failure): failure is { source: BlockSource; error: any } => failure !== null);
+    failed.forEach(({ source, error }) => {
+      const cached = this.sourceRegistries[source.name];
+      if (cached) {
+        logger.warn('Failed to fetch block registry, using cached copy', { source: source.name, serverUrl: source.url, message: error.message });
+      } else {
+        logger.error('Failed to fetch block registry', { source: source.name, serverUrl: source.url, message: error.message });
+      }
+    });
+
+    if (!sources.some(source => this.sourceRegistries[source.name])) {
+      throw failed[0].error;
+    }
+
+    this._mergeSources(sources);
+    if (failed.length < sources.length) {
       this.lastFetched = Date.now();
-      
-      console.log(`✅ Block registry loaded with ${Object.keys(this.registry).length} components and ${Object.keys(this.authorRegistry).length} authors`);
-      return { registry: this.registry, authorRegistry: this.authorRegistry };
-    } catch (error: any) {
-      console.error('❌ Failed to fetch block registry:', error.message);
-      // Return cached registry if available
-      return { registry: this.registry, authorRegistry: this.authorRegistry };
+    } else {
+      this._lastFailedAttempt = Date.now();
     }
+
+    logger.info('Block registry loaded', {
+      sources: sources.length,
+      components: Object.keys(this.registry).length,
+      authors: Object.keys(this.authorRegistry).length
+    });
+    return { registry: this.registry, authorRegistry: this.authorRegistry };
+  }
+
+  public _fetchSourceRegistry(source: BlockSource, policy: RetryPolicy): Promise<SourceRegistry> {
+    const url = `${source.url}/api/blocks/registry`;
+    return withRetry(async () => {
+      logger.debug('Fetching block registry', { source: source.name, serverUrl: source.url });
+      try {
+        const response = await authorizedRequest(source, headers => axios.get(url, { timeout: policy.timeout, headers }));
+        return {
+          registry: response.data.registry || {},
+          authorRegistry: response.data.authorRegistry || {}
+        };
+      } catch (error: any) {
+        throw new RegistryFetchError(url, {
+          status: error.response?.status,
+          message: error.message,
+          cause: error
+        });
+      }
+    }, policy, { operation: 'fetchRegistry' });
   }
 
   /**
-   * Get registry, fetching from server if cache is stale
+   * Build `registry` and `authorRegistry` from the sources' registries, highest
+   * precedence first, and record which source each block is loaded from
    */
-  async getRegistry(): Promise<BlockRegistry> {
-    const now = Date.now();
-    
-    // Fetch if cache is stale or empty
-    if (now - this.lastFetched > this.cacheDuration || Object.keys(this.registry).length === 0) {
+  public _mergeSources(sources: BlockSource[]): void {
+    const registry: BlockRegistry = {};
+    const authorRegistry: AuthorNamespaceRegistry = {};
+    const recorded = new Set<string>();
+
+    const record = (entry: BlockRegistryEntry, source: string) => {
+      [entry.blockId, ...(entry.versions || []).map(info => info.blockId)].forEach(blockId => {
+        if (blockId && !recorded.has(blockId)) {
+          recorded.add(blockId);
+          recordBlockSource(blockId, source);
+        }
+      });
+    };
+
+    sources.forEach(source => {
+      const fetched = this.sourceRegistries[source.name];
+      if (!fetched) return;
+
+      Object.keys(fetched.registry).forEach(componentName => {
+        const entry = fetched.registry[componentName];
+        record(entry, source.name);
+        if (!registry[componentName]) {
+          registry[componentName] = { ...entry, source: source.name };
+        }
+      });
+
+      Object.keys(fetched.authorRegistry).forEach(author => {
+        const components = authorRegistry[author] || (authorRegistry[author] = {});
+        Object.keys(fetched.authorRegistry[author]).forEach(componentName => {
+          const entry = fetched.authorRegistry[author][componentName];
+          record(entry, source.name);
+          if (!components[componentName]) {
+            components[componentName] = { ...entry, source: source.name };
+          }
+        });
+      });
+    });
+
+    this.registry = registry;
+    this.authorRegistry = authorRegistry;
+    this._mergedFrom = this._getSourcesKey(sources);
+  }
+
+  public _getSources(): BlockSource[] {
+    return getBlockSources(this.serverUrl);
+  }
+
+  /**
+   * Identifies the sources and the token the registry was built with
+   */
+  public _getSourcesKey(sources: BlockSource[]): string {
+    return `${sources.map(source => `${source.name}=${source.url}`).join(' ')} auth=${getAuthGeneration()}`;
+  }
+
+  /**
+   * Key for a source's registry in the persistent cache, scoped to the token it was
+   * fetched with. `undefined` when it can't be scoped and isn't persisted.
+   */
+  public async _getPersistKey(source: BlockSource): Promise<string | undefined> {
+    const scope = await getAuthScope(source);
+    return scope ? `registry:${source.url}:${scope}` : undefined;
+  }
+
+  /**
+   * Load the registries last seen for the current sources from the persistent cache
+   */
+  public async _restorePersisted(): Promise<void> {
+    const sources = this._getSources();
+    const sourcesKey = this._getSourcesKey(sources);
+    if (!isPersistentCacheEnabled() || this.lastFetched > 0 || this._restoredFrom === sourcesKey) {
+      return;
+    }
+    this._restoredFrom = sourcesKey;
+
+    const entries = await Promise.all(sources.map(async source => {
+      const persistKey = await this._getPersistKey(source);
+      return persistKey ? readPersisted<SourceRegistry>(persistKey) : undefined;
+    }));
+    // A fetch may have finished while storage was being read
+    if (this.lastFetched > 0 || !entries.some(Boolean)) {
+      return;
+    }
+
+    this._authGeneration = getAuthGeneration();
+    entries.forEach((entry, index) => {
+      if (entry) {
+        this.sourceRegistries[sources[index].name] = {
+          registry: entry.value.registry || {},
+          authorRegistry: entry.value.authorRegistry || {}
+        };
+      }
+    });
+    this._mergeSources(sources);
+    // The oldest restored registry decides when all of them are refreshed
+    this.lastFetched = Math.min(...entries.filter(Boolean).map(entry => entry!.storedAt));
+    logger.info('Block registry restored from persistent cache', {
+      components: Object.keys(this.registry).length,
+      authors: Object.keys(this.authorRegistry).length,
+      storedAt: this.lastFetched
+    });
+  }
+
+  /**
+   * Make sure a registry is available. With the persistent cache enabled, a stale
+   * registry is served right away and refreshed in the background; otherwise a
+   * stale or empty one is refetched first. After every source failed, a cached
+   * registry is served for another cache duration before they're tried again.
+   */
+  public async _ensureFresh(isEmpty: () => boolean): Promise<void> {
+    await this._restorePersisted();
+
+    const stale = Date.now() - Math.max(this.lastFetched, this._lastFailedAttempt) > this.cacheDuration;
+    // A registry merged from other sources than the configured ones isn't served at all
+    if (isEmpty() || this._mergedFrom !== this._getSourcesKey(this._getSources())) {
+      await this.fetchRegistry();
+    } else if (stale && isPersistentCacheEnabled()) {
+      if (!this._revalidating) {
+        logger.debug('Serving stale block registry while revalidating');
+        this._revalidating = this.fetchRegistry()
+          .catch(error => logger.warn('Background registry refresh failed', { message: error.message }))
+          .then(() => {
+            this._revalidating = null;
+          });
+      }
+    } else if (stale) {
       await this.fetchRegistry();
     }
-    
+  }
+
+  /**
+   * Get registry, fetching from server if cache is stale
+   */
+  async getRegistry(): Promise<BlockRegistry> {
+    await this._ensureFresh(() => Object.keys(this.registry).length === 0);
     return this.registry;
   }
 
@@ -75,32 +314,72 @@ class BlockRegistryManager {
    * Get author registry, fetching from server if cache is stale
    */
   async getAuthorRegistry(): Promise<AuthorNamespaceRegistry> {
-    const now = Date.now();
-    
-    // Fetch if cache is stale or empty
-    if (now - this.lastFetched > this.cacheDuration || Object.keys(this.authorRegistry).length === 0) {
-      await this.fetchRegistry();
-    }
-    
+    await this._ensureFresh(() => Object.keys(this.authorRegistry).length === 0);
     return this.authorRegistry;
   }
 
   /**
-   * Get block ID for a component name (global namespace)
+   * Resolve a registry entry against an exact version or semver range.
+   * Versions the registry doesn't list are passed through so the
+   * federation loader can resolve them against the block's version list.
+   */
+  resolveEntryVersion(entry: BlockRegistryEntry, version?: string): ResolvedBlock {
+    if (!version) {
+      return { blockId: entry.blockId, source: entry.source };
+    }
+
+    const known: BlockVersionInfo[] = [
+      ...(entry.version ? [{ version: entry.version, blockId: entry.blockId }] : []),
+      ...(entry.versions || []).filter(info => !info.buildStatus || info.buildStatus === 'success')
+    ];
+    const resolved = maxSatisfying(known.map(info => info.version), version);
+
+    if (resolved) {
+      const info = known.find(candidate => candidate.version === resolved)!;
+      return { blockId: info.blockId || entry.blockId, version: resolved, source: entry.source };
+    }
+
+    if (entry.versions && !isExactVersion(version)) {
+      throw new VersionNotFoundError(`"${entry.componentName}"`, version, known.map(info => info.version), {
+        blockId: entry.blockId
+      });
+    }
+
+    return { blockId: entry.blockId, version, source: entry.source };
+  }
+
+  /**
+   * Resolve a component name (global namespace) to a block ID and version
    */
-  async getBlockId(componentName: string): Promise<string | null> {
+  async resolveBlock(componentName: string, version?: string): Promise<ResolvedBlock | null> {
     const registry = await this.getRegistry();
     const entry = registry[componentName];
-    return entry ? entry.blockId : null;
+    return entry ? this.resolveEntryVersion(entry, version) : null;
   }
 
   /**
-   * Get block ID for an author's component
+   * Resolve an author's component to a block ID and version
    */
-  async getAuthorBlockId(author: string, componentName: string): Promise<string | null> {
+  async resolveAuthorBlock(author: string, componentName: string, version?: string): Promise<ResolvedBlock | null> {
     const authorRegistry = await this.getAuthorRegistry();
     const entry = authorRegistry[author]?.[componentName];
-    return entry ? entry.blockId : null;
+    return entry ? this.resolveEntryVersion(entry, version) : null;
+  }
+
+  /**
+   * Get block ID for a component name (global namespace)
+   */
+  async getBlockId(componentName: string, version?: string): Promise<string | null> {
+    const resolved = await this.resolveBlock(componentName, version);
+    return resolved ? resolved.blockId : null;
+  }
+
+  /**
+   * Get block ID for an author's component
+   */
+  async getAuthorBlockId(author: string, componentName: string, version?: string): Promise<string | null> {
+    const resolved = await this.resolveAuthorBlock(author, componentName, version);
+    return resolved ? resolved.blockId : null;
   }
 
   /**
@@ -151,12 +430,16 @@ class BlockRegistryManager {
   }
 
   /**
-   * Clear the registry cache
+   * Clear the registry cache. The persistent copy is kept; use clearPersistentCache to drop it.
    */
   clearCache(): void {
     this.registry = {};
     this.authorRegistry = {};
+    this.sourceRegistries = {};
     this.lastFetched = 0;
+    this._lastFailedAttempt = 0;
+    this._restoredFrom = null;
+    this._mergedFrom = null;
   }
 
   /**
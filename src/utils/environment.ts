@@ -0,0 +1,6 @@
+/**
+ * True when running in a browser with a DOM, false during server rendering
+ */
+export function isBrowser(): boolean {
+  return typeof window !== 'undefined' && typeof document !== 'undefined';
+}
@@ -0,0 +1,110 @@
+import { isBrowser } from './environment';
+import { createLogger } from './logger';
+
+const logger = createLogger('errorCapture');
+
+interface BlockErrorWatcher {
+  scriptUrls: string[];
+  onError: (error: unknown) => void;
+}
+
+const watchers = new Set<BlockErrorWatcher>();
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Stack frames name a file followed by `:line:column`, so a URL only matches itself,
+ * not another file that starts with it
+ */
+function stackMentions(stack: unknown, url: string): boolean {
+  return typeof stack === 'string' && new RegExp(`${escapeRegExp(url)}:\\d`).test(stack);
+}
+
+/**
+ * Hand an uncaught error to the one watcher whose scripts threw it. When several
+ * match (the same block mounted more than once), it can't be tied to an instance
+ * and is left to the page rather than taking all of them down.
+ */
+function dispatch(event: Event, error: unknown, filename?: string): void {
+  const stack = (error as any)?.stack;
+  const matching = Array.from(watchers).filter(watcher =>
+    watcher.scriptUrls.some(url => url === filename || stackMentions(stack, url))
+  );
+
+  if (matching.length === 1) {
+    event.preventDefault();
+    matching[0].onError(error);
+  } else if (matching.length > 1) {
+    logger.warn('Uncaught error from a block mounted more than once, not attributing it to an instance', {
+      error,
+      instances: matching.length
+    });
+  }
+}
+
+const handleError = (event: ErrorEvent) => {
+  dispatch(event, event.error ?? new Error(event.message), event.filename);
+};
+
+const handleRejection = (event: PromiseRejectionEvent) => {
+  dispatch(event, event.reason);
+};
+
+/**
+ * Start recording the URLs of `<script src>` elements added to document.head,
+ * which is how webpack loads a container's chunks. The returned function stops
+ * recording and returns them. Like style capture, scripts of blocks loading at
+ * the same moment can't be told apart.
+ */
+export function startScriptCapture(): () => string[] {
+  if (!isBrowser() || typeof MutationObserver === 'undefined') {
+    return () => [];
+  }
+
+  const captured: string[] = [];
+  const collect = (records: MutationRecord[]) => {
+    records.forEach(record => record.addedNodes.forEach(node => {
+      if (node instanceof HTMLScriptElement && node.src && !captured.includes(node.src)) {
+        captured.push(node.src);
+      }
+    }));
+  };
+
+  const observer = new MutationObserver(collect);
+  observer.observe(document.head, { childList: true });
+
+  return () => {
+    collect(observer.takeRecords());
+    observer.disconnect();
+    return captured;
+  };
+}
+
+/**
+ * Watch for uncaught errors and unhandled rejections thrown by code loaded from a
+ * block's scripts: its federation script and the chunks it loaded. Errors are
+ * attributed by exact script URL, from the event's file or the error's stack, and
+ * matching events are marked handled so they don't surface as page errors.
+ * Returns a function that stops watching.
+ */
+export function watchBlockErrors(scriptUrls: string | string[], onError: (error: unknown) => void): () => void {
+  const urls = (Array.isArray(scriptUrls) ? scriptUrls : [scriptUrls]).filter(Boolean);
+  if (!isBrowser() || urls.length === 0) {
+    return () => {};
+  }
+
+  const watcher: BlockErrorWatcher = { scriptUrls: urls, onError };
+  if (watchers.size === 0) {
+    window.addEventListener('error', handleError);
+    window.addEventListener('unhandledrejection', handleRejection);
+  }
+  watchers.add(watcher);
+
+  return () => {
+    if (!watchers.delete(watcher) || watchers.size > 0) return;
+    window.removeEventListener('error', handleError);
+    window.removeEventListener('unhandledrejection', handleRejection);
+  };
+}
@@ -0,0 +1,279 @@
+import type { BlockMetadata } from './federationLoader';
+import type { ValidationIssue } from './propsValidation';
+
+export type BlockErrorCode =
+  | 'MISSING_BLOCK_ID'
+  | 'METADATA_FETCH_FAILED'
+  | 'UNAUTHORIZED'
+  | 'BUILD_NOT_READY'
+  | 'MISSING_FEDERATION_URL'
+  | 'SCRIPT_LOAD_FAILED'
+  | 'SCRIPT_ORIGIN_NOT_ALLOWED'
+  | 'CONTAINER_NOT_FOUND'
+  | 'CONTAINER_COLLISION'
+  | 'MISSING_MOUNT'
+  | 'BLOCK_NOT_IN_REGISTRY'
+  | 'VERSION_NOT_FOUND'
+  | 'REGISTRY_FETCH_FAILED'
+  | 'TIMEOUT'
+  | 'BROWSER_REQUIRED'
+  | 'SERVER_RENDER_FAILED'
+  | 'BLOCK_RUNTIME_ERROR'
+  | 'PROPS_INVALID';
+
+/**
+ * Base class for every error raised while resolving, loading or mounting a block.
+ * Branch on `code` or `instanceof` rather than on the message.
+ */
+export class BlockLoadError extends Error {
+  public readonly code: BlockErrorCode;
+  public readonly blockId?: string;
+  public readonly cause?: unknown;
+
+  constructor(code: BlockErrorCode, message: string, options: { blockId?: string; cause?: unknown } = {}) {
+    super(message);
+    // Keep instanceof working when compiled down to ES5-style classes
+    Object.setPrototypeOf(this, new.target.prototype);
+    this.name = new.target.name;
+    this.code = code;
+    this.blockId = options.blockId;
+    this.cause = options.cause;
+  }
+}
+
+/**
+ * The server could not return metadata (or the version list) for a block
+ */
+export class MetadataFetchError extends BlockLoadError {
+  public readonly status?: number;
+  public readonly url: string;
+
+  constructor(blockId: string, url: string, options: { status?: number; cause?: unknown; message?: string } = {}) {
+    super('METADATA_FETCH_FAILED', `Failed to fetch block metadata: ${options.message || 'unknown error'}`, {
+      blockId,
+      cause: options.cause
+    });
+    this.status = options.status;
+    this.url = url;
+  }
+}
+
+/**
+ * The server refused the block to this caller (HTTP 401 after a token refresh, or 403):
+ * it's private or unpublished and the configured token doesn't grant access
+ */
+export class UnauthorizedError extends BlockLoadError {
+  public readonly status: number;
+  public readonly url: string;
+
+  constructor(blockId: string, url: string, options: { status: number; cause?: unknown }) {
+    super('UNAUTHORIZED', `Not authorized to load block ${blockId} (HTTP ${options.status})`, {
+      blockId,
+      cause: options.cause
+    });
+    this.status = options.status;
+    this.url = url;
+  }
+}
+
+/**
+ * The block exists but its latest build hasn't succeeded
+ */
+export class BuildNotReadyError extends BlockLoadError {
+  public readonly buildStatus: BlockMetadata['buildStatus'];
+
+  constructor(blockId: string, buildStatus: BlockMetadata['buildStatus']) {
+    super('BUILD_NOT_READY', `Block ${blockId} build status is ${buildStatus}`, { blockId });
+    this.buildStatus = buildStatus;
+  }
+}
+
+/**
+ * The block's metadata doesn't point at a federation script
+ */
+export class MissingFederationUrlError extends BlockLoadError {
+  constructor(blockId: string) {
+    super('MISSING_FEDERATION_URL', `Block ${blockId} does not have a federation URL`, { blockId });
+  }
+}
+
+/**
+ * The federation script failed to download or execute
+ */
+export class ScriptLoadError extends BlockLoadError {
+  public readonly url: string;
+
+  constructor(url: string, options: { blockId?: string; cause?: unknown } = {}) {
+    super('SCRIPT_LOAD_FAILED', `Failed to load script: ${url}`, options);
+    this.url = url;
+  }
+}
+
+/**
+ * The federation script's origin isn't in `allowedScriptOrigins`
+ */
+export class ScriptOriginNotAllowedError extends BlockLoadError {
+  public readonly url: string;
+
+  constructor(url: string, options: { blockId?: string } = {}) {
+    super('SCRIPT_ORIGIN_NOT_ALLOWED', `Script origin is not in allowedScriptOrigins: ${url}`, options);
+    this.url = url;
+  }
+}
+
+/**
+ * The script loaded but no usable federation container was registered
+ */
+export class ContainerNotFoundError extends BlockLoadError {
+  public readonly attemptedNames: string[];
+
+  constructor(blockId: string, attemptedNames: string[]) {
+    super('CONTAINER_NOT_FOUND', `Federation container not found for block ${blockId}. Tried: ${attemptedNames.join(', ')}`, {
+      blockId
+    });
+    this.attemptedNames = attemptedNames;
+  }
+}
+
+/**
+ * The container global a block should provide belongs to another loaded block,
+ * so using it would render the other block
+ */
+export class ContainerCollisionError extends BlockLoadError {
+  public readonly containerName: string;
+  public readonly ownerBlockId: string;
+
+  constructor(blockId: string, containerName: string, ownerBlockId: string) {
+    super('CONTAINER_COLLISION', `Federation container "${containerName}" of block ${blockId} is already registered by block ${ownerBlockId}`, {
+      blockId
+    });
+    this.containerName = containerName;
+    this.ownerBlockId = ownerBlockId;
+  }
+}
+
+/**
+ * The federation module doesn't export a mount function
+ */
+export class MissingMountError extends BlockLoadError {
+  public readonly availableExports: string[];
+
+  constructor(blockId: string, availableExports: string[]) {
+    super('MISSING_MOUNT', `Block ${blockId} does not export a mount function. Available exports: ${availableExports.join(', ')}`, {
+      blockId
+    });
+    this.availableExports = availableExports;
+  }
+}
+
+/**
+ * A component name (optionally under an author) isn't in the registry
+ */
+export class BlockNotInRegistryError extends BlockLoadError {
+  public readonly componentName: string;
+  public readonly author?: string;
+  public readonly availableComponents?: string[];
+
+  constructor(componentName: string, options: { author?: string; availableComponents?: string[] } = {}) {
+    const message = options.author
+      ? `Component "${componentName}" not found for author "${options.author}"`
+      : `Component "${componentName}" not found in registry. Available components: ${(options.availableComponents || []).join(', ')}`;
+    super('BLOCK_NOT_IN_REGISTRY', message);
+    this.componentName = componentName;
+    this.author = options.author;
+    this.availableComponents = options.availableComponents;
+  }
+}
+
+/**
+ * No published version satisfies the requested version or range
+ */
+export class VersionNotFoundError extends BlockLoadError {
+  public readonly range: string;
+  public readonly availableVersions: string[];
+
+  constructor(target: string, range: string, availableVersions: string[], options: { blockId?: string } = {}) {
+    super('VERSION_NOT_FOUND', `No version of ${target} satisfies "${range}". Available: ${availableVersions.join(', ') || 'none'}`, options);
+    this.range = range;
+    this.availableVersions = availableVersions;
+  }
+}
+
+/**
+ * The block registry could not be fetched and no cached copy was available
+ */
+export class RegistryFetchError extends BlockLoadError {
+  public readonly status?: number;
+  public readonly url: string;
+
+  constructor(url: string, options: { status?: number; cause?: unknown; message?: string } = {}) {
+    super('REGISTRY_FETCH_FAILED', `Failed to fetch block registry: ${options.message || 'unknown error'}`, {
+      cause: options.cause
+    });
+    this.status = options.status;
+    this.url = url;
+  }
+}
+
+/**
+ * A request or script load exceeded the retry policy's timeout
+ */
+export class TimeoutError extends BlockLoadError {
+  public readonly timeout: number;
+
+  constructor(description: string, timeout: number, options: { blockId?: string } = {}) {
+    super('TIMEOUT', `${description} timed out after ${timeout}ms`, options);
+    this.timeout = timeout;
+  }
+}
+
+/**
+ * A browser-only loading step (script injection, container lookup) ran on the server
+ */
+export class BrowserRequiredError extends BlockLoadError {
+  constructor(operation: string, options: { blockId?: string } = {}) {
+    super('BROWSER_REQUIRED', `${operation} requires a browser environment`, options);
+  }
+}
+
+/**
+ * The block's server module could not be loaded or its render() failed
+ */
+export class ServerRenderError extends BlockLoadError {
+  constructor(blockId: string, message: string, options: { cause?: unknown } = {}) {
+    super('SERVER_RENDER_FAILED', `Failed to server-render block ${blockId}: ${message}`, { blockId, cause: options.cause });
+  }
+}
+
+/**
+ * A loaded block failed while mounting, updating, rendering or in its own async code
+ */
+export class BlockRuntimeError extends BlockLoadError {
+  public readonly phase: 'mount' | 'update' | 'render' | 'async';
+
+  constructor(blockId: string | undefined, phase: BlockRuntimeError['phase'], cause: unknown) {
+    const reason = cause instanceof Error ? cause.message : String(cause);
+    super('BLOCK_RUNTIME_ERROR', `Block ${blockId || 'unknown'} failed during ${phase}: ${reason}`, { blockId, cause });
+    this.phase = phase;
+  }
+}
+
+/**
+ * Props failed schema validation in 'strict' mode, so the block wasn't mounted
+ */
+export class PropsValidationError extends BlockLoadError {
+  public readonly issues: ValidationIssue[];
+
+  constructor(blockId: string, issues: ValidationIssue[]) {
+    const summary = issues.map(issue => `${issue.path}: ${issue.message}`).join('; ');
+    super('PROPS_INVALID', `Block ${blockId} received invalid props: ${summary}`, { blockId });
+    this.issues = issues;
+  }
+}
+
+/**
+ * Type guard for errors raised by this package
+ */
+export function isBlockLoadError(error: unknown): error is BlockLoadError {
+  return error instanceof BlockLoadError;
+}
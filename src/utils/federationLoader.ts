@@ -1,4 +1,46 @@
 import axios from 'axios';
+import { isExactVersion, maxSatisfying } from './semver';
+import { createLogger } from './logger';
+import {
+  BlockLoadError,
+  BuildNotReadyError,
+  ContainerCollisionError,
+  ContainerNotFoundError,
+  MetadataFetchError,
+  MissingFederationUrlError,
+  MissingMountError,
+  ScriptLoadError,
+  ScriptOriginNotAllowedError,
+  UnauthorizedError,
+  VersionNotFoundError,
+  BrowserRequiredError,
+  ServerRenderError
+} from './errors';
+import { isBrowser } from './environment';
+import { startStyleCapture } from './styleIsolation';
+import { startScriptCapture } from './errorCapture';
+import { createSandboxedModule } from './sandbox';
+import { applyScriptAttributes, assertScriptOriginAllowed, isScriptOriginAllowed } from './scriptSecurity';
+import type { ScriptAttributes } from './scriptSecurity';
+import type { BlockPropsSchema } from './propsValidation';
+import { getRetryPolicy, withRetry, withTimeout } from './retry';
+import { deletePersisted, isScriptCacheEnabled, readPersisted, writePersisted } from './persistentCache';
+import { checkSharedRequirements, initContainer } from './shareScope';
+import { ensureImportMap } from './importMap';
+import { getBlockSources, getSourceForBlock } from './sources';
+import type { BlockSource } from './sources';
+import {
+  authorizedRequest,
+  getAuthScope,
+  getAuthToken,
+  getScriptAuth,
+  hasAuthToken,
+  isSourceOrigin,
+  isUnauthorizedStatus
+} from './auth';
+import type { RetryPolicy } from './retry';
+
+const logger = createLogger('federationLoader');
 
 export interface BlockMetadata {
   blockId: string;
@@ -7,48 +49,260 @@ export interface BlockMetadata {
   federationUrl: string;
   buildStatus: 'pending' | 'building' | 'success' | 'failed';
   lastBuilt?: string;
-  blockProps?: {
-    type: 'object';
-    properties: {
-      [propName: string]: {
-        type: 'string' | 'number' | 'boolean' | 'array' | 'object';
-        description?: string;
-        required?: boolean;
-        default?: any;
-        enum?: any[];
-        items?: any;
-        properties?: any;
-      };
-    };
-    required?: string[];
-    additionalProperties?: boolean;
-  };
+  version?: string;
+  // Subresource integrity hash of the federation script, e.g. 'sha384-...'
+  integrity?: string;
+  // CORS mode for the script tag; defaults to 'anonymous' when `integrity` is set
+  crossOrigin?: 'anonymous' | 'use-credentials';
+  // Server bundle exporting `render(props)`, loaded during server-side rendering
+  ssrUrl?: string;
+  blockProps?: BlockPropsSchema;
   propsLastParsed?: string;
+  // How `federationUrl` is published: a classic script registering a global container
+  // (default), a native ES module exporting `mount`, or a Module Federation 2 mf-manifest.json
+  format?: BlockFormat;
+  // Global the federation script registers its container under (webpack's `name`)
+  containerName?: string;
+  // Module the container exposes the block as; defaults to './Block'
+  exposedModule?: string;
+  // Required versions of shared libraries the block was built against, e.g. { react: '^19.0.0' }
+  shared?: { [name: string]: string };
+}
+
+export type BlockFormat = 'script' | 'esm' | 'mf-manifest';
+
+/**
+ * Where and how a block's code is loaded, resolved from its metadata
+ */
+export interface FederationEntry {
+  url: string;
+  // 'script' runs a classic script tag, 'module' uses import()
+  type: 'script' | 'module';
+  // 'container' exposes the block through init/get, 'module' exports mount itself
+  kind: 'container' | 'module';
+  // Globals a script container may register under
+  containerNames: string[];
+  // Set when the names are guessed from the block ID rather than declared
+  guessedContainer?: boolean;
+  exposedModule: string;
+}
+
+/**
+ * One published version of a block, as listed by the server
+ */
+export interface BlockVersionInfo {
+  version: string;
+  blockId?: string; // Set when a version lives under a different block ID
+  federationUrl?: string;
+  buildStatus?: BlockMetadata['buildStatus'];
+  lastBuilt?: string;
 }
 
 export interface FederationModuleCache {
-  [blockId: string]: {
+  // Keyed by source name and blockId, or blockId@version for version-pinned loads (see getCacheKey)
+  [cacheKey: string]: {
     component: any;
     loadedAt: number;
     federationUrl: string;
+    blockId: string;
+    version?: string;
+    // Name of the source the block was loaded from
+    source: string;
+    // Stylesheets the module added to document.head while loading
+    styles?: HTMLElement[];
+    // Full URL the script was loaded from (including any cache-busting parameter)
+    scriptUrl?: string;
+    // Scripts (webpack chunks) the module added to document.head while loading
+    chunkUrls?: string[];
+    // Global the federation container was found under
+    containerName?: string;
+    // Identifies the build that was loaded, to tell whether a refresh found a new one
+    buildKey?: string;
   };
 }
 
+/**
+ * How long each in-memory layer is trusted before it's checked again, in ms
+ */
+export interface CacheDurations {
+  registry: number;
+  metadata: number;
+  modules: number;
+}
+
+export const DEFAULT_CACHE_DURATIONS: CacheDurations = {
+  registry: 5 * 60 * 1000,
+  metadata: 5 * 60 * 1000,
+  modules: 5 * 60 * 1000
+};
+
+/**
+ * Changes whenever the server publishes a different build of a block
+ */
+function getBuildKey(metadata: BlockMetadata): string {
+  return [metadata.federationUrl, metadata.version, metadata.lastBuilt, metadata.integrity].map(part => part ?? '').join('|');
+}
+
+function withCacheBust(url: string, token: string): string {
+  return `${url}${url.includes('?') ? '&' : '?'}mextBuild=${encodeURIComponent(token)}`;
+}
+
+/**
+ * Key for the module and metadata caches, e.g. `default:64f1c2...@1.2.0`. The same
+ * block ID on two sources is two different blocks, so the source name is part of it.
+ */
+function getCacheKey(source: BlockSource, blockId: string, version?: string): string {
+  return `${source.name}:${version ? `${blockId}@${version}` : blockId}`;
+}
+
+/**
+ * Whether a cache key belongs to a block, on any source and at any version
+ */
+function isCacheKeyOf(cacheKey: string, blockId: string): boolean {
+  const key = cacheKey.slice(cacheKey.lastIndexOf(':') + 1);
+  return key === blockId || key.startsWith(`${blockId}@`);
+}
+
+/**
+ * UnauthorizedError when the server refused the caller, otherwise MetadataFetchError
+ */
+function toMetadataError(blockId: string, url: string, error: any): BlockLoadError {
+  const status = error.response?.status;
+  if (isUnauthorizedStatus(status)) {
+    return new UnauthorizedError(blockId, url, { status, cause: error });
+  }
+  return new MetadataFetchError(blockId, url, { status, message: error.message, cause: error });
+}
+
+/**
+ * Handle a block can return from mount to receive prop updates in place.
+ * Blocks without `update` are remounted whenever their props change.
+ */
+export interface MountHandle {
+  update?: (props: any) => void;
+  unmount: () => void;
+}
+
+/**
+ * How a block is separated from the host page: 'none' mounts into a plain div,
+ * 'shadow' mounts inside an open shadow root holding the block's stylesheets,
+ * 'iframe' runs the block's script in a sandboxed iframe (see utils/sandbox)
+ */
+export type BlockIsolation = 'none' | 'shadow' | 'iframe';
+
+/**
+ * Passed to mount/hydrate as the third argument
+ */
+export interface MountContext {
+  isolation: BlockIsolation;
+  // Where the block should insert its own <style>/<link> elements: the shadow
+  // root in 'shadow' mode, otherwise the document
+  styleRoot: Document | ShadowRoot;
+  // Report failures from the block's own async code (timers, listeners, promises)
+  reportError?: (error: unknown) => void;
+  // Emit a named event to the host's onBlockEvent handler
+  emit?: (name: string, payload?: any) => void;
+}
+
 export interface MountFunction {
-  (container: HTMLElement, props?: any): void | (() => void); // Returns optional cleanup function
+  (container: HTMLElement, props?: any, context?: MountContext): void | (() => void) | MountHandle; // Returns optional cleanup function or handle
+}
+
+/**
+ * Server-side render export: returns the block's initial HTML for the given props
+ */
+export interface ServerRenderFunction {
+  (props?: any): string | Promise<string>;
 }
 
 export interface FederationModule {
   mount?: MountFunction;
+  // Attaches to server-rendered markup instead of replacing it
+  hydrate?: MountFunction;
+  render?: ServerRenderFunction;
   default?: {
     mount?: MountFunction;
+    hydrate?: MountFunction;
+    render?: ServerRenderFunction;
   };
 }
 
+/**
+ * Loads a block's server bundle. The default uses a native dynamic import of `url`.
+ */
+export type ServerModuleLoader = (url: string, metadata: BlockMetadata) => Promise<FederationModule>;
+
+const defaultServerModuleLoader: ServerModuleLoader = (url) => import(/* webpackIgnore: true */ url);
+
+const importModule = (url: string): Promise<any> => import(/* webpackIgnore: true */ url);
+
+const DEFAULT_EXPOSED_MODULE = './Block';
+
+/**
+ * Global names a block's federation container may be registered under, for builds
+ * whose metadata doesn't declare `containerName`
+ */
+function getLegacyContainerNames(blockId: string): string[] {
+  return [
+    blockId,
+    blockId.replace(/[^a-zA-Z0-9]/g, ''),
+    `block${blockId.replace(/[^a-zA-Z0-9]/g, '')}`,
+    'threescene', // default name from webpack template
+  ];
+}
+
+export interface MetadataRequestOptions {
+  version?: string;
+  retryPolicy?: Partial<RetryPolicy>;
+  // Skip the metadata caches and ask the server
+  force?: boolean;
+  // Fetch the block from this named source instead of the one its registry entry came from
+  source?: string;
+}
+
+/**
+ * A block in a batch metadata request
+ */
+export type MetadataBatchRequest = string | { blockId: string; version?: string; source?: string };
+
+/**
+ * A block waiting to be fetched in a batch metadata request
+ */
+export interface PendingMetadataRequest {
+  // Exact version, ranges are resolved before batching
+  blockId: string;
+  version?: string;
+  cacheKey: string;
+  // Keys of the block in the batch result, one per request that resolved to it
+  resultKeys: string[];
+}
+
+export interface LoadModuleOptions {
+  // Exact version or semver range
+  version?: string;
+  // Per-call override of the global retry policy
+  retryPolicy?: Partial<RetryPolicy>;
+  // Fetch the block from this named source instead of the one its registry entry came from
+  source?: string;
+}
+
 class FederationLoader {
   public cache: FederationModuleCache = {};
   public loadingPromises: { [blockId: string]: Promise<any> } = {};
+  // Metadata of successful builds, keyed like the module cache
+  public metadataCache: { [cacheKey: string]: { metadata: BlockMetadata; fetchedAt: number } } = {};
+  // Metadata requests in flight, shared by everyone asking for the same block and version
+  public metadataRequests: { [cacheKey: string]: Promise<BlockMetadata> } = {};
+  // Which block each container global was taken from, to catch two blocks sharing a name
+  public containerOwners: { [containerName: string]: { blockId: string; container: any } } = {};
+  // Metadata serialized by the server, keyed like the module cache
+  public preloadedMetadata: { [cacheKey: string]: BlockMetadata } = {};
+  public serverModuleLoader: ServerModuleLoader = defaultServerModuleLoader;
   public serverUrl: string;
+  public cacheDurations: Pick<CacheDurations, 'metadata' | 'modules'> = {
+    metadata: DEFAULT_CACHE_DURATIONS.metadata,
+    modules: DEFAULT_CACHE_DURATIONS.modules
+  };
 
   constructor(serverUrl: string = 'https://api.v2.mext.app') {
     this.serverUrl = serverUrl;
@@ -58,171 +312,1166 @@ class FederationLoader {
     this.serverUrl = url;
   }
 
+  setCacheDurations(durations: Partial<Pick<CacheDurations, 'metadata' | 'modules'>>): void {
+    this.cacheDurations = {
+      metadata: durations.metadata ?? this.cacheDurations.metadata,
+      modules: durations.modules ?? this.cacheDurations.modules
+    };
+  }
+
+  setServerModuleLoader(loader?: ServerModuleLoader): void {
+    this.serverModuleLoader = loader || defaultServerModuleLoader;
+  }
+
+  /**
+   * Origins trusted without being listed in allowedScriptOrigins: the configured servers
+   */
+  getImplicitScriptOrigins(): string[] {
+    return getBlockSources(this.serverUrl).reduce<string[]>((origins, source) => {
+      try {
+        return [...origins, new URL(source.url).origin];
+      } catch {
+        return origins;
+      }
+    }, []);
+  }
+
+  /**
+   * Use a URL as-is if it's already a complete URL, otherwise prefix with the URL
+   * of the block's source (or the server URL)
+   */
+  resolveUrl(url: string, blockId?: string, source?: string): string {
+    return blockId
+      ? this._resolveSourceUrl(url, this._getSource(blockId, source))
+      : url.startsWith('http') ? url : `${this.serverUrl}${url}`;
+  }
+
+  public _resolveSourceUrl(url: string, source: BlockSource): string {
+    return url.startsWith('http') ? url : `${source.url}${url}`;
+  }
+
+  /**
+   * The source to fetch a block from: the named one, or else the one whose registry lists it
+   */
+  public _getSource(blockId: string, source?: string): BlockSource {
+    return getSourceForBlock(blockId, this.serverUrl, source);
+  }
+
+  /**
+   * Key for metadata or a version list in the persistent cache, scoped to the token
+   * it was fetched with. `undefined` when it can't be scoped and isn't persisted.
+   */
+  public async _getPersistKey(kind: 'metadata' | 'versions', source: BlockSource, cacheKey: string): Promise<string | undefined> {
+    const scope = await getAuthScope(source);
+    return scope ? `${kind}:${source.url}:${scope}:${cacheKey}` : undefined;
+  }
+
+  public async _persistMetadata(source: BlockSource, cacheKey: string, metadata: BlockMetadata): Promise<void> {
+    const persistKey = await this._getPersistKey('metadata', source, cacheKey);
+    if (persistKey) {
+      await writePersisted(persistKey, metadata);
+    }
+  }
+
+  /**
+   * Hint the browser to download a block's federation script without executing it
+   */
+  async prefetchModule(blockId: string, options: MetadataRequestOptions & { rel?: 'prefetch' | 'preload' | 'modulepreload' } = {}): Promise<void> {
+    if (!isBrowser()) {
+      return;
+    }
+
+    const metadata = await this.getBlockMetadata(blockId, options);
+    if (!metadata.federationUrl || metadata.buildStatus !== 'success') {
+      logger.debug('Skipping prefetch for block without a successful build', { blockId, buildStatus: metadata.buildStatus });
+      return;
+    }
+
+    const source = this._getSource(blockId, options.source);
+    const entry = await this._resolveEntry(blockId, metadata, undefined, undefined, source);
+    const url = entry.url;
+    // ES modules are only reused from a modulepreload
+    const rel = entry.type === 'module' ? 'modulepreload' : options.rel || 'prefetch';
+    if (document.querySelector(`script[src="${url}"], link[href="${url}"]`)) {
+      return;
+    }
+
+    if (!isScriptOriginAllowed(url, this.getImplicitScriptOrigins())) {
+      logger.warn('Skipping prefetch from an origin outside allowedScriptOrigins', { blockId, url });
+      return;
+    }
+
+    // A link can't carry the token, and a signed URL is signed again when the block loads
+    if (this._usesScriptAuth(url, blockId, source)) {
+      logger.debug('Skipping prefetch of a script loaded with script auth', { blockId, url });
+      return;
+    }
+
+    logger.debug('Prefetching federation script', { blockId, url, rel });
+    const link = document.createElement('link');
+    link.rel = rel;
+    link.href = url;
+    if (rel !== 'modulepreload') {
+      link.as = 'script';
+    }
+    // Must match the script tag's attributes for the browser to reuse the download
+    applyScriptAttributes(link, metadata);
+    document.head.appendChild(link);
+  }
+
+  /**
+   * Seed metadata fetched elsewhere (e.g. during server rendering) so it isn't requested again
+   */
+  primeMetadata(blockId: string, metadata: BlockMetadata, version?: string, source?: string): void {
+    this.preloadedMetadata[getCacheKey(this._getSource(blockId, source), blockId, version)] = metadata;
+  }
+
+  /**
+   * Get block metadata, from the cache while it's fresh, otherwise from the server
+   * (retrying per the retry policy). Concurrent requests for the same block and
+   * version share one fetch; `force` bypasses the caches.
+   */
+  async getBlockMetadata(blockId: string, options: MetadataRequestOptions = {}): Promise<BlockMetadata> {
+    const source = this._getSource(blockId, options.source);
+    const policy = getRetryPolicy(options.retryPolicy);
+    return withRetry(
+      () => this._getCachedMetadata(blockId, options.version, policy.timeout, options.force, source),
+      policy,
+      { blockId, operation: 'getBlockMetadata' }
+    );
+  }
+
+  /**
+   * One attempt at getting metadata through the memory cache and in-flight requests
+   */
+  public _getCachedMetadata(
+    blockId: string,
+    version?: string,
+    timeout?: number,
+    force = false,
+    source: BlockSource = this._getSource(blockId)
+  ): Promise<BlockMetadata> {
+    const cacheKey = getCacheKey(source, blockId, version);
+
+    const cached = this.metadataCache[cacheKey];
+    if (!force && cached && Date.now() - cached.fetchedAt < this.cacheDurations.metadata) {
+      logger.debug('Returning cached block metadata', { cacheKey });
+      return Promise.resolve(cached.metadata);
+    }
+
+    // A request already in flight is as fresh as a forced one
+    if (cacheKey in this.metadataRequests) {
+      logger.debug('Metadata already being fetched, sharing the request', { cacheKey });
+      return this.metadataRequests[cacheKey];
+    }
+
+    const request = this._fetchBlockMetadata(blockId, version, timeout, force, source);
+    this.metadataRequests[cacheKey] = request;
+    return request.then(
+      metadata => {
+        delete this.metadataRequests[cacheKey];
+        this._cacheMetadata(cacheKey, metadata);
+        return metadata;
+      },
+      error => {
+        delete this.metadataRequests[cacheKey];
+        throw error;
+      }
+    );
+  }
+
   /**
-   * Get block metadata from server
+   * Remember metadata of successful builds; others are asked for again since their status will change
    */
-  async getBlockMetadata(blockId: string): Promise<BlockMetadata> {
-    console.log(`🔄 Fetching metadata for block: ${blockId} from ${this.serverUrl}`);
+  public _cacheMetadata(cacheKey: string, metadata: BlockMetadata): void {
+    if (metadata && metadata.buildStatus === 'success') {
+      this.metadataCache[cacheKey] = { metadata, fetchedAt: Date.now() };
+    } else {
+      delete this.metadataCache[cacheKey];
+    }
+  }
+
+  public async _fetchBlockMetadata(
+    blockId: string,
+    version?: string,
+    timeout?: number,
+    force = false,
+    source: BlockSource = this._getSource(blockId)
+  ): Promise<BlockMetadata> {
+    const cacheKey = getCacheKey(source, blockId, version);
+    const preloaded = this.preloadedMetadata[cacheKey];
+    if (preloaded && !force) {
+      logger.debug('Using preloaded block metadata', { blockId, version });
+      return preloaded;
+    }
+
+    // Persisted metadata of a finished build is served right away and refreshed in the background
+    const persistKey = await this._getPersistKey('metadata', source, cacheKey);
+    const persisted = persistKey ? await readPersisted<BlockMetadata>(persistKey) : undefined;
+    if (persistKey && persisted && persisted.value.buildStatus === 'success' && !force) {
+      if (Date.now() - persisted.storedAt > this.cacheDurations.metadata) {
+        logger.debug('Using persisted block metadata while revalidating', { blockId, version, storedAt: persisted.storedAt });
+        this._requestBlockMetadata(blockId, version, timeout, source)
+          .then(metadata => writePersisted(persistKey, metadata))
+          .catch(error => {
+            logger.debug('Background metadata refresh failed', { blockId, version });
+            if (error instanceof UnauthorizedError) {
+              this._forgetMetadata(cacheKey, persistKey);
+            }
+          });
+      }
+      return persisted.value;
+    }
+
     try {
-      const url = `${this.serverUrl}/api/blocks/${blockId}`;
-      console.log(`📡 Making request to: ${url}`);
-      const response = await axios.get(url);
-      console.log(`✅ Block metadata received:`, response.data);
+      const metadata = await this._requestBlockMetadata(blockId, version, timeout, source);
+      if (persistKey) {
+        void writePersisted(persistKey, metadata);
+      }
+      return metadata;
+    } catch (error) {
+      // A caller who lost access isn't served the copy kept from before
+      if (error instanceof UnauthorizedError && persistKey) {
+        this._forgetMetadata(cacheKey, persistKey);
+      } else if (persisted) {
+        logger.warn('Failed to fetch block metadata, using persisted copy', { blockId, version, storedAt: persisted.storedAt });
+        return persisted.value;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Drop metadata the server no longer lets the caller see, from memory and from storage
+   */
+  public _forgetMetadata(cacheKey: string, persistKey: string): void {
+    logger.debug('Access to block metadata was refused, dropping the kept copy', { cacheKey });
+    delete this.metadataCache[cacheKey];
+    void deletePersisted(persistKey);
+  }
+
+  public async _requestBlockMetadata(
+    blockId: string,
+    version?: string,
+    timeout?: number,
+    source: BlockSource = this._getSource(blockId)
+  ): Promise<BlockMetadata> {
+    logger.debug('Fetching block metadata', { blockId, version, source: source.name, serverUrl: source.url });
+    const url = version
+      ? `${source.url}/api/blocks/${blockId}?version=${encodeURIComponent(version)}`
+      : `${source.url}/api/blocks/${blockId}`;
+    try {
+      const response = await authorizedRequest(source, headers => axios.get(url, { timeout, headers }));
+      logger.debug('Block metadata received', { blockId, url, metadata: response.data });
       return response.data;
     } catch (error: any) {
-      console.error(`❌ Failed to fetch block metadata for ${blockId}:`, error);
-      console.error(`❌ Request URL: ${this.serverUrl}/api/blocks/${blockId}`);
-      console.error(`❌ Error details:`, {
+      logger.error('Failed to fetch block metadata', {
+        blockId,
+        version,
+        url,
         status: error.response?.status,
         statusText: error.response?.statusText,
         data: error.response?.data,
         message: error.message
       });
-      throw new Error(`Failed to fetch block metadata: ${error.message}`);
+      throw toMetadataError(blockId, url, error);
     }
   }
 
   /**
-   * Load federation module dynamically
+   * Get metadata for many blocks in one request to `POST /api/blocks/batch`, which
+   * takes `{ blocks: [{ blockId, version? }] }` and answers `{ blocks: BlockMetadata[] }`.
+   * Cached metadata isn't requested again unless `force` is set. Results are keyed
+   * `blockId` or `blockId@version` as requested (ranges are resolved first), prefixed
+   * with `source:` when a source was named; blocks the server doesn't return, or
+   * whose range can't be resolved, are missing from the result. Each source gets
+   * one request for its blocks; servers without the endpoint (404/405) are asked
+   * block by block instead.
    */
-  async loadModule(blockId: string): Promise<FederationModule> {
-    console.log(`🔄 loadModule called for block: ${blockId}`);
+  async getBlockMetadataBatch(
+    blocks: MetadataBatchRequest[],
+    options: Pick<MetadataRequestOptions, 'retryPolicy' | 'force'> = {}
+  ): Promise<{ [cacheKey: string]: BlockMetadata }> {
+    const policy = getRetryPolicy(options.retryPolicy);
+    const requests = blocks.map(block => (typeof block === 'string' ? { blockId: block } : block));
+    const result: { [resultKey: string]: BlockMetadata } = {};
+    // Blocks from different sources are asked for in one request per source
+    const groups: { [sourceName: string]: { source: BlockSource; requests: PendingMetadataRequest[] } } = {};
+
+    // The batch endpoint takes exact versions, so ranges are resolved against each block's version list
+    const resolved = await Promise.all(requests.map(async request => {
+      if (!request.version || isExactVersion(request.version)) return request.version;
+      try {
+        return await this.resolveVersion(request.blockId, request.version, { retryPolicy: options.retryPolicy, source: request.source });
+      } catch (error) {
+        logger.warn('Could not resolve version range for batch metadata', { blockId: request.blockId, version: request.version, error });
+        return null;
+      }
+    }));
+
+    requests.forEach(({ blockId, version: requestedVersion, source: sourceName }, index) => {
+      const version = resolved[index];
+      if (version === null) return;
+
+      const source = this._getSource(blockId, sourceName);
+      const cacheKey = getCacheKey(source, blockId, version);
+      const blockKey = requestedVersion ? `${blockId}@${requestedVersion}` : blockId;
+      const resultKey = sourceName ? `${sourceName}:${blockKey}` : blockKey;
+      const cached = this.metadataCache[cacheKey];
+      const group = groups[source.name] || (groups[source.name] = { source, requests: [] });
+      const pending = group.requests.find(request => request.cacheKey === cacheKey);
+      if (!options.force && cached && Date.now() - cached.fetchedAt < this.cacheDurations.metadata) {
+        result[resultKey] = cached.metadata;
+      } else if (pending) {
+        pending.resultKeys.push(resultKey);
+      } else {
+        group.requests.push({ blockId, version, cacheKey, resultKeys: [resultKey] });
+      }
+    });
+
+    await Promise.all(Object.keys(groups).filter(name => groups[name].requests.length > 0).map(name =>
+      this._requestMetadataBatch(groups[name].source, groups[name].requests, policy, options, result)
+    ));
+
+    return result;
+  }
+
+  public async _requestMetadataBatch(
+    source: BlockSource,
+    pending: PendingMetadataRequest[],
+    policy: RetryPolicy,
+    options: Pick<MetadataRequestOptions, 'retryPolicy' | 'force'>,
+    result: { [resultKey: string]: BlockMetadata }
+  ): Promise<void> {
+    const url = `${source.url}/api/blocks/batch`;
+    let received: BlockMetadata[];
+    try {
+      received = await withRetry(async () => {
+        logger.debug('Fetching block metadata batch', { url, count: pending.length });
+        try {
+          const response = await authorizedRequest(source, headers => axios.post(
+            url,
+            { blocks: pending.map(({ blockId, version }) => (version ? { blockId, version } : { blockId })) },
+            { timeout: policy.timeout, headers }
+          ));
+          return Array.isArray(response.data) ? response.data : response.data.blocks || [];
+        } catch (error: any) {
+          throw toMetadataError(pending.map(request => request.blockId).join(','), url, error);
+        }
+      }, policy, { operation: 'getBlockMetadataBatch' });
+    } catch (error: any) {
+      if (error instanceof MetadataFetchError && (error.status === 404 || error.status === 405)) {
+        logger.info('Batch metadata endpoint unavailable, fetching blocks one by one', { source: source.name, count: pending.length });
+        await Promise.all(pending.map(async ({ blockId, version, resultKeys }) => {
+          try {
+            const metadata = await this.getBlockMetadata(blockId, {
+              version,
+              retryPolicy: options.retryPolicy,
+              force: options.force,
+              source: source.name
+            });
+            resultKeys.forEach(resultKey => {
+              result[resultKey] = metadata;
+            });
+          } catch (blockError) {
+            logger.warn('Failed to fetch block metadata', { blockId, version, error: blockError });
+          }
+        }));
+        return;
+      }
+      throw error;
+    }
+
+    pending.forEach(({ blockId, version, cacheKey, resultKeys }) => {
+      const metadata = received.find(candidate =>
+        candidate && candidate.blockId === blockId && (!version || candidate.version === version)
+      );
+      if (!metadata) {
+        logger.warn('Batch response is missing a block', { blockId, version });
+        return;
+      }
+      resultKeys.forEach(resultKey => {
+        result[resultKey] = metadata;
+      });
+      this._cacheMetadata(cacheKey, metadata);
+      void this._persistMetadata(source, cacheKey, metadata);
+    });
+  }
+
+  /**
+   * List the published versions of a block
+   */
+  async getBlockVersions(blockId: string, options: Pick<MetadataRequestOptions, 'retryPolicy' | 'source'> = {}): Promise<BlockVersionInfo[]> {
+    const source = this._getSource(blockId, options.source);
+    const url = `${source.url}/api/blocks/${blockId}/versions`;
+    const policy = getRetryPolicy(options.retryPolicy);
+    const persistKey = await this._getPersistKey('versions', source, getCacheKey(source, blockId));
+
+    try {
+      const versions = await this._requestBlockVersions(blockId, url, policy, source);
+      if (persistKey) {
+        void writePersisted(persistKey, versions);
+      }
+      return versions;
+    } catch (error) {
+      if (!persistKey) throw error;
+      if (error instanceof UnauthorizedError) {
+        void deletePersisted(persistKey);
+        throw error;
+      }
+      const persisted = await readPersisted<BlockVersionInfo[]>(persistKey);
+      if (!persisted) throw error;
+      logger.warn('Failed to fetch block versions, using persisted copy', { blockId, storedAt: persisted.storedAt });
+      return persisted.value;
+    }
+  }
+
+  public _requestBlockVersions(blockId: string, url: string, policy: RetryPolicy, source: BlockSource): Promise<BlockVersionInfo[]> {
+    return withRetry(async () => {
+      logger.debug('Fetching block versions', { blockId, url });
+      try {
+        const response = await authorizedRequest(source, headers => axios.get(url, { timeout: policy.timeout, headers }));
+        return Array.isArray(response.data) ? response.data : response.data.versions || [];
+      } catch (error: any) {
+        logger.error('Failed to fetch block versions', { blockId, url, message: error.message });
+        throw toMetadataError(blockId, url, error);
+      }
+    }, policy, { blockId, operation: 'getBlockVersions' });
+  }
+
+  /**
+   * Resolve an exact version or semver range to a concrete published version
+   */
+  async resolveVersion(blockId: string, range: string, options: Pick<MetadataRequestOptions, 'retryPolicy' | 'source'> = {}): Promise<string> {
+    const pinned = range.trim().replace(/^=/, '');
+    if (isExactVersion(pinned)) {
+      return pinned;
+    }
+
+    const versions = await this.getBlockVersions(blockId, options);
+    const available = versions
+      .filter(info => !info.buildStatus || info.buildStatus === 'success')
+      .map(info => info.version);
+    const resolved = maxSatisfying(available, range);
+
+    if (!resolved) {
+      throw new VersionNotFoundError(`block ${blockId}`, range, available, { blockId });
+    }
+
+    logger.info('Resolved block version', { blockId, range, version: resolved });
+    return resolved;
+  }
+
+  /**
+   * Load federation module dynamically, optionally pinned to a version or range.
+   * Failures are retried per the global retry policy, or `options.retryPolicy`.
+   */
+  async loadModule(blockId: string, options: LoadModuleOptions = {}): Promise<FederationModule> {
+    const { version, retryPolicy } = options;
+    logger.debug('loadModule called', { blockId, version });
+    const source = this._getSource(blockId, options.source);
+
+    const resolvedVersion = version ? await this.resolveVersion(blockId, version, { retryPolicy, source: source.name }) : undefined;
+    const cacheKey = getCacheKey(source, blockId, resolvedVersion);
     
-    // Return cached module if available and not too old (5 minutes)
-    const cached = this.cache[blockId];
-    if (cached && Date.now() - cached.loadedAt < 5 * 60 * 1000) {
-      console.log(`💾 Returning cached module for block: ${blockId}`);
+    // Return cached module if available and not older than the module TTL
+    const cached = this.cache[cacheKey];
+    const expired = cached && Date.now() - cached.loadedAt >= this.cacheDurations.modules;
+    if (cached && !expired) {
+      logger.debug('Returning cached module', { cacheKey });
       return cached.component;
     } else if (cached) {
-      console.log(`⏰ Cached module expired for block: ${blockId}, reloading`);
+      logger.debug('Cached module expired, checking for a new build', { cacheKey });
     } else {
-      console.log(`🆕 No cached module found for block: ${blockId}`);
+      logger.debug('No cached module found', { cacheKey });
     }
 
-    // Return existing loading promise if already loading
-    if (blockId in this.loadingPromises) {
-      console.log(`⏳ Already loading block: ${blockId}, returning existing promise`);
-      return this.loadingPromises[blockId];
+    // Return existing loading promise if already loading (the first caller's retry policy applies)
+    if (cacheKey in this.loadingPromises) {
+      logger.debug('Already loading block, returning existing promise', { cacheKey });
+      return this.loadingPromises[cacheKey];
     }
 
-    console.log(`🚀 Starting fresh load for block: ${blockId}`);
+    logger.debug('Starting fresh load', { cacheKey });
     // Start loading process
-    this.loadingPromises[blockId] = this._loadModuleInternal(blockId);
+    const policy = getRetryPolicy(retryPolicy);
+    this.loadingPromises[cacheKey] = cached
+      ? this._revalidateModule(cacheKey, blockId, resolvedVersion, policy, source)
+      : withRetry(
+          () => this._loadModuleInternal(blockId, resolvedVersion, policy.timeout, { source }),
+          policy,
+          { blockId, version: resolvedVersion, operation: 'loadModule' }
+        );
     
     try {
-      const module = await this.loadingPromises[blockId];
-      console.log(`✅ loadModule completed for block: ${blockId}`);
+      const module = await this.loadingPromises[cacheKey];
       return module;
     } catch (error) {
-      console.error(`❌ loadModule failed for block: ${blockId}:`, error);
+      logger.error('loadModule failed', { cacheKey, error });
       throw error;
     } finally {
-      console.log(`🧹 Cleaning up loading promise for block: ${blockId}`);
-      delete this.loadingPromises[blockId];
+      delete this.loadingPromises[cacheKey];
+    }
+  }
+
+  /**
+   * Check a block for a new build now, regardless of the module TTL. A new build
+   * replaces the old script and container; mounted instances keep running the old
+   * module until they remount.
+   */
+  async refreshModule(blockId: string, options: LoadModuleOptions = {}): Promise<FederationModule> {
+    const source = this._getSource(blockId, options.source);
+    const resolvedVersion = options.version
+      ? await this.resolveVersion(blockId, options.version, { retryPolicy: options.retryPolicy, source: source.name })
+      : undefined;
+    const cacheKey = getCacheKey(source, blockId, resolvedVersion);
+    if (!this.cache[cacheKey]) {
+      return this.loadModule(blockId, { ...options, version: resolvedVersion, source: source.name });
+    }
+
+    if (cacheKey in this.loadingPromises) {
+      return this.loadingPromises[cacheKey];
+    }
+
+    this.loadingPromises[cacheKey] = this._revalidateModule(cacheKey, blockId, resolvedVersion, getRetryPolicy(options.retryPolicy), source);
+    try {
+      return await this.loadingPromises[cacheKey];
+    } finally {
+      delete this.loadingPromises[cacheKey];
     }
   }
 
-  public async _loadModuleInternal(blockId: string): Promise<FederationModule> {
+  /**
+   * Compare the cached module's build against fresh metadata. The same build (or
+   * one that isn't ready yet, or unreachable metadata) keeps the cached module for
+   * another TTL; a new build is loaded after evicting the old one.
+   */
+  public async _revalidateModule(
+    cacheKey: string,
+    blockId: string,
+    version: string | undefined,
+    policy: RetryPolicy,
+    source: BlockSource
+  ): Promise<FederationModule> {
+    const cached = this.cache[cacheKey];
+    let metadata: BlockMetadata;
+    try {
+      metadata = await withRetry(
+        () => this._requestBlockMetadata(blockId, version, policy.timeout, source),
+        policy,
+        { blockId, version, operation: 'getBlockMetadata' }
+      );
+    } catch (error) {
+      logger.warn('Could not check for a new build, keeping the cached module', { cacheKey, error });
+      cached.loadedAt = Date.now();
+      return cached.component;
+    }
+
+    this._cacheMetadata(cacheKey, metadata);
+    void this._persistMetadata(source, cacheKey, metadata);
+
+    if (metadata.buildStatus !== 'success' || !metadata.federationUrl || getBuildKey(metadata) === cached.buildKey) {
+      logger.debug('No new build, keeping the cached module', { cacheKey, buildStatus: metadata.buildStatus });
+      cached.loadedAt = Date.now();
+      return cached.component;
+    }
+
+    logger.info('New build found, replacing cached module', { cacheKey, federationUrl: metadata.federationUrl });
+    const sameUrl = metadata.federationUrl === cached.federationUrl;
+    this._evictModule(cacheKey);
+
+    return withRetry(
+      // The browser may still hold the old build at an unchanged URL
+      () => this._loadModuleInternal(blockId, version, policy.timeout, {
+        metadata,
+        source,
+        cacheBust: sameUrl ? metadata.lastBuilt || String(Date.now()) : undefined
+      }),
+      policy,
+      { blockId, version, operation: 'loadModule' }
+    );
+  }
+
+  /**
+   * Drop a cached module together with its script tag and container global, so
+   * the next load runs the script again instead of reusing the old container
+   */
+  public _evictModule(cacheKey: string): void {
+    const entry = this.cache[cacheKey];
+    if (!entry) return;
+    delete this.cache[cacheKey];
+
+    if (!isBrowser()) return;
+
+    const scriptUrl = entry.scriptUrl || this.resolveUrl(entry.federationUrl, entry.blockId, entry.source);
+    document.querySelectorAll('script').forEach(script => {
+      if (script.getAttribute('src') === scriptUrl || script.getAttribute('data-mext-source') === scriptUrl) {
+        script.remove();
+      }
+    });
+
+    if (entry.containerName) {
+      const globals = window as any;
+      if (this.containerOwners[entry.containerName]?.blockId === entry.blockId) {
+        delete this.containerOwners[entry.containerName];
+      }
+      try {
+        delete globals[entry.containerName];
+      } catch {
+        // Globals declared with `var` can't be deleted
+      }
+      if (entry.containerName in globals) {
+        globals[entry.containerName] = undefined;
+      }
+    }
+
+    logger.debug('Evicted cached module', { cacheKey, scriptUrl, containerName: entry.containerName });
+  }
+
+  public async _loadModuleInternal(
+    blockId: string,
+    version?: string,
+    timeout?: number,
+    options: { metadata?: BlockMetadata; cacheBust?: string; source?: BlockSource } = {}
+  ): Promise<FederationModule> {
+    const source = options.source || this._getSource(blockId);
     try {
       // Get block metadata to find federation URL
-      const metadata = await this.getBlockMetadata(blockId);
+      const metadata = options.metadata || await this._getCachedMetadata(blockId, version, timeout, false, source);
       
       if (!metadata.federationUrl) {
-        throw new Error(`Block ${blockId} does not have a federation URL`);
+        throw new MissingFederationUrlError(blockId);
       }
 
       if (metadata.buildStatus !== 'success') {
-        throw new Error(`Block ${blockId} build status is ${metadata.buildStatus}`);
+        throw new BuildNotReadyError(blockId, metadata.buildStatus);
       }
 
-      // Use federation URL as-is if it's already a complete URL, otherwise prefix with server URL
-      const federationUrl = metadata.federationUrl.startsWith('http') 
-        ? metadata.federationUrl 
-        : `${this.serverUrl}${metadata.federationUrl}`;
+      checkSharedRequirements(blockId, metadata.shared);
+
+      const entry = await this._signEntry(await this._resolveEntry(blockId, metadata, timeout, options.cacheBust, source), blockId, source);
+      const federationUrl = entry.url;
       
-      console.log(`🔄 Loading federation module: ${federationUrl}`);
+      logger.debug('Loading federation module', { blockId, version, federationUrl, format: metadata.format || 'script' });
 
-      // Load the federation script
-      await this._loadScript(federationUrl);
+      // Record the stylesheets the block injects so isolated mounts can re-parent them
+      const stopStyleCapture = startStyleCapture();
+      const stopScriptCapture = startScriptCapture();
+      let module: FederationModule;
+      let containerName: string | undefined;
+      let styles: HTMLElement[];
+      let chunkUrls: string[];
+      try {
+        if (entry.type === 'module') {
+          module = await this._importEntry(entry, blockId, timeout, metadata, source);
+        } else if (this._usesScriptAuth(federationUrl, blockId, source) && getScriptAuth() === 'fetch') {
+          await this._loadAuthorizedScript(federationUrl, blockId, timeout, metadata, source);
+          ({ module, containerName } = await this._extractModule(blockId, entry));
+        } else {
+          // Load the federation script
+          await this._loadScriptWithFallback(federationUrl, blockId, timeout, metadata);
 
-      // Try to find the federation container
-      const module = await this._extractModule(blockId);
+          // Try to find the federation container
+          ({ module, containerName } = await this._extractModule(blockId, entry));
+        }
+      } finally {
+        styles = stopStyleCapture();
+        chunkUrls = stopScriptCapture().filter(url => url !== federationUrl);
+      }
 
-      // Cache the loaded module
-      this.cache[blockId] = {
+      // Cache the loaded module per resolved version
+      const cacheKey = getCacheKey(source, blockId, version);
+      this.cache[cacheKey] = {
         component: module,
         loadedAt: Date.now(),
-        federationUrl: metadata.federationUrl
+        federationUrl: metadata.federationUrl,
+        blockId,
+        version: version ?? metadata.version,
+        source: source.name,
+        styles,
+        scriptUrl: federationUrl,
+        chunkUrls,
+        containerName,
+        buildKey: getBuildKey(metadata)
       };
 
-      console.log(`✅ Successfully loaded federation module: ${blockId}`);
+      logger.info('Loaded federation module', { cacheKey, federationUrl });
       return module;
 
     } catch (error: any) {
-      console.error(`❌ Failed to load federation module ${blockId}:`, error);
+      logger.error('Failed to load federation module', { blockId, version, error });
       throw error;
     }
   }
 
-  public _loadScript(url: string): Promise<void> {
-    console.log(`📜 Loading script: ${url}`);
-    return new Promise((resolve, reject) => {
+  /**
+   * Get a module that mounts the block inside a sandboxed iframe. The block's
+   * script is never run in this window, so nothing is cached here.
+   */
+  async loadSandboxedModule(blockId: string, options: LoadModuleOptions = {}): Promise<FederationModule> {
+    const { version, retryPolicy } = options;
+    const source = this._getSource(blockId, options.source);
+    const resolvedVersion = version ? await this.resolveVersion(blockId, version, { retryPolicy, source: source.name }) : undefined;
+    const metadata = await this.getBlockMetadata(blockId, { version: resolvedVersion, retryPolicy, source: source.name });
+
+    if (!metadata.federationUrl) {
+      throw new MissingFederationUrlError(blockId);
+    }
+
+    if (metadata.buildStatus !== 'success') {
+      throw new BuildNotReadyError(blockId, metadata.buildStatus);
+    }
+
+    const entry = await this._signEntry(
+      await this._resolveEntry(blockId, metadata, getRetryPolicy(retryPolicy).timeout, undefined, source),
+      blockId,
+      source
+    );
+    if (this._usesScriptAuth(entry.url, blockId, source) && getScriptAuth() === 'fetch') {
+      logger.warn('Sandboxed blocks load their script inside the iframe, without the token', { blockId });
+    }
+    assertScriptOriginAllowed(entry.url, { blockId, implicitOrigins: this.getImplicitScriptOrigins() });
+
+    logger.debug('Creating sandboxed module', { blockId, version: resolvedVersion, format: metadata.format || 'script' });
+    return createSandboxedModule(blockId, entry, metadata);
+  }
+
+  /**
+   * Load a block's server bundle (from `metadata.ssrUrl`) for server-side rendering.
+   * Resolves to null when the block doesn't ship one.
+   */
+  async loadServerModule(blockId: string, options: MetadataRequestOptions = {}): Promise<FederationModule | null> {
+    const metadata = await this.getBlockMetadata(blockId, options);
+    if (!metadata.ssrUrl) {
+      logger.debug('Block has no server bundle', { blockId, version: options.version });
+      return null;
+    }
+
+    const ssrUrl = this.resolveUrl(metadata.ssrUrl, blockId, options.source);
+    try {
+      logger.debug('Loading server module', { blockId, ssrUrl });
+      return await this.serverModuleLoader(ssrUrl, metadata);
+    } catch (error: any) {
+      logger.error('Failed to load server module', { blockId, ssrUrl, error });
+      throw new ServerRenderError(blockId, error.message, { cause: error });
+    }
+  }
+
+  public _loadScript(url: string, blockId?: string, timeout?: number, attributes: ScriptAttributes = {}): Promise<void> {
+    if (!isBrowser()) {
+      return Promise.reject(new BrowserRequiredError(`Loading script ${url}`, { blockId }));
+    }
+
+    try {
+      assertScriptOriginAllowed(url, { blockId, implicitOrigins: this.getImplicitScriptOrigins() });
+    } catch (error) {
+      logger.error('Refusing to load script from an origin outside allowedScriptOrigins', { blockId, url });
+      return Promise.reject(error);
+    }
+
+    let script: HTMLScriptElement | null = null;
+
+    const load = new Promise<void>((resolve, reject) => {
       // Check if script is already loaded
       const existingScript = document.querySelector(`script[src="${url}"]`);
       if (existingScript) {
-        console.log(`♻️ Script already loaded: ${url}`);
+        logger.debug('Script already loaded', { url });
         resolve();
         return;
       }
 
-      console.log(`🆕 Creating new script element for: ${url}`);
-      const script = document.createElement('script');
+      logger.debug('Loading script', { url });
+      script = document.createElement('script');
       script.src = url;
       script.async = true;
+      applyScriptAttributes(script, attributes);
       
       script.onload = () => {
-        console.log(`✅ Script loaded successfully: ${url}`);
+        logger.debug('Script loaded', { url });
         resolve();
       };
       script.onerror = (event) => {
-        console.error(`❌ Script failed to load: ${url}`, event);
-        reject(new Error(`Failed to load script: ${url}`));
+        logger.error('Script failed to load', { url, event });
+        // Drop the failed tag so a retry inserts a fresh one
+        script?.remove();
+        reject(new ScriptLoadError(url, { blockId, cause: event }));
       };
       
-      console.log(`➕ Appending script to document head: ${url}`);
       document.head.appendChild(script);
     });
+
+    return withTimeout(load, timeout, `Loading script ${url}`, () => script?.remove());
   }
 
-  public async _extractModule(blockId: string): Promise<FederationModule> {
-    // Try different possible module names
-    const possibleNames = [
-      blockId,
-      blockId.replace(/[^a-zA-Z0-9]/g, ''),
-      `block${blockId.replace(/[^a-zA-Z0-9]/g, '')}`,
-      'threescene', // default name from webpack template
-    ];
+  /**
+   * Load a federation script; with script caching enabled, keep its source and
+   * fall back to the kept copy when the network load fails
+   */
+  public async _loadScriptWithFallback(url: string, blockId: string, timeout?: number, attributes: ScriptAttributes = {}): Promise<void> {
+    try {
+      await this._loadScript(url, blockId, timeout, attributes);
+    } catch (error) {
+      const persisted = isScriptCacheEnabled() && !(error instanceof ScriptOriginNotAllowedError)
+        ? await readPersisted<string>(`script:${url}`)
+        : undefined;
+      if (!persisted) throw error;
+
+      logger.warn('Script failed to load, using persisted copy', { blockId, url, storedAt: persisted.storedAt });
+      await this._loadScriptSource(persisted.value, url, blockId, attributes);
+      return;
+    }
+
+    if (isScriptCacheEnabled()) {
+      void this._persistScript(url, blockId, attributes);
+    }
+  }
+
+  /**
+   * Store a script's source. The request is usually answered from the HTTP cache,
+   * and needs CORS when the script is on another origin.
+   */
+  public async _persistScript(url: string, blockId: string, attributes: ScriptAttributes = {}): Promise<void> {
+    try {
+      const response = await fetch(url, {
+        credentials: attributes.crossOrigin === 'use-credentials' ? 'include' : 'same-origin',
+        integrity: attributes.integrity
+      });
+      if (!response.ok) {
+        throw new Error(`HTTP ${response.status}`);
+      }
+      await writePersisted(`script:${url}`, await response.text());
+    } catch (error) {
+      logger.debug('Could not persist federation script', { blockId, url, error });
+    }
+  }
+
+  /**
+   * Whether a script is loaded with script auth: its block's source has a token,
+   * the URL is on the source's origin and a script auth mode is set
+   */
+  public _usesScriptAuth(url: string, blockId: string, source: BlockSource = this._getSource(blockId)): boolean {
+    return getScriptAuth() !== 'none' && hasAuthToken(source) && isSourceOrigin(url, source);
+  }
+
+  /**
+   * With a URL signer, swap a private block's script URL for a signed one
+   */
+  public async _signEntry(entry: FederationEntry, blockId: string, source: BlockSource = this._getSource(blockId)): Promise<FederationEntry> {
+    const signer = getScriptAuth();
+    if (typeof signer !== 'function' || !this._usesScriptAuth(entry.url, blockId, source)) {
+      return entry;
+    }
+
+    try {
+      const token = await getAuthToken(source);
+      if (!token) return entry;
+      const url = await signer(entry.url, { blockId, source: source.name, token });
+      logger.debug('Signed federation script URL', { blockId, url: entry.url });
+      return { ...entry, url };
+    } catch (error) {
+      logger.error('Failed to sign federation script URL', { blockId, url: entry.url, error });
+      throw new ScriptLoadError(entry.url, { blockId, cause: error });
+    }
+  }
+
+  /**
+   * Download a private block's script with its source's token and run it from a
+   * blob: URL. With script caching enabled the source is kept, and used when the
+   * download fails for any reason other than being refused.
+   */
+  public async _loadAuthorizedScript(
+    url: string,
+    blockId: string,
+    timeout?: number,
+    attributes: ScriptAttributes = {},
+    source: BlockSource = this._getSource(blockId)
+  ): Promise<void> {
+    if (!isBrowser()) {
+      throw new BrowserRequiredError(`Loading script ${url}`, { blockId });
+    }
+    assertScriptOriginAllowed(url, { blockId, implicitOrigins: this.getImplicitScriptOrigins() });
 
-    console.log(`🔍 Trying federation container names:`, possibleNames);
+    if (document.querySelector(`script[data-mext-source="${url}"]`)) {
+      logger.debug('Script already loaded', { url });
+      return;
+    }
+
+    // Kept per token like metadata, since the script is private too
+    const scope = isScriptCacheEnabled() ? await getAuthScope(source) : undefined;
+    const persistKey = scope ? `script:${scope}:${url}` : undefined;
+    let text: string;
+    try {
+      logger.debug('Fetching script with token', { blockId, url, source: source.name });
+      text = await withTimeout(authorizedRequest(source, async headers => {
+        const response = await fetch(url, { headers, integrity: attributes.integrity });
+        if (!response.ok) {
+          throw Object.assign(new Error(`HTTP ${response.status}`), { status: response.status });
+        }
+        return response.text();
+      }), timeout, `Loading script ${url}`);
+      if (persistKey) {
+        void writePersisted(persistKey, text);
+      }
+    } catch (error: any) {
+      if (isUnauthorizedStatus(error?.status)) {
+        if (persistKey) {
+          void deletePersisted(persistKey);
+        }
+        throw new UnauthorizedError(blockId, url, { status: error.status, cause: error });
+      }
+      const persisted = persistKey ? await readPersisted<string>(persistKey) : undefined;
+      if (!persisted) {
+        throw error instanceof BlockLoadError ? error : new ScriptLoadError(url, { blockId, cause: error });
+      }
+      logger.warn('Script failed to load, using persisted copy', { blockId, url, storedAt: persisted.storedAt });
+      text = persisted.value;
+    }
+
+    await this._loadScriptSource(text, url, blockId, attributes);
+  }
+
+  /**
+   * Run script source (persisted, or downloaded with a token) through a blob URL. `sourceUrl` has already passed
+   * the origin allow-list; a CSP that doesn't allow blob: scripts blocks this.
+   */
+  public _loadScriptSource(source: string, sourceUrl: string, blockId: string, attributes: ScriptAttributes = {}): Promise<void> {
+    const blobUrl = URL.createObjectURL(new Blob([source], { type: 'text/javascript' }));
+
+    return new Promise<void>((resolve, reject) => {
+      const script = document.createElement('script');
+      script.src = blobUrl;
+      script.setAttribute('data-mext-source', sourceUrl);
+      applyScriptAttributes(script, attributes);
+      script.onload = () => {
+        URL.revokeObjectURL(blobUrl);
+        resolve();
+      };
+      script.onerror = (event) => {
+        URL.revokeObjectURL(blobUrl);
+        script.remove();
+        reject(new ScriptLoadError(sourceUrl, { blockId, cause: event }));
+      };
+      document.head.appendChild(script);
+    });
+  }
+
+  /**
+   * Work out where a block's code lives and how to load it. For mf-manifest
+   * blocks this fetches the manifest to find the remote entry.
+   */
+  public async _resolveEntry(
+    blockId: string,
+    metadata: BlockMetadata,
+    timeout?: number,
+    cacheBust?: string,
+    source: BlockSource = this._getSource(blockId)
+  ): Promise<FederationEntry> {
+    const baseUrl = this._resolveSourceUrl(metadata.federationUrl, source);
+    const url = cacheBust ? withCacheBust(baseUrl, cacheBust) : baseUrl;
+    const exposedModule = metadata.exposedModule || DEFAULT_EXPOSED_MODULE;
+
+    if (metadata.format === 'esm') {
+      return { url, type: 'module', kind: 'module', containerNames: [], exposedModule };
+    }
+
+    if (metadata.format === 'mf-manifest') {
+      return this._resolveManifestEntry(blockId, url, metadata, timeout, cacheBust, source);
+    }
+
+    if (metadata.containerName) {
+      return { url, type: 'script', kind: 'container', containerNames: [metadata.containerName], exposedModule };
+    }
+
+    const containerNames = getLegacyContainerNames(blockId);
+    logger.warn('Block metadata declares no containerName, guessing the container global', { blockId, containerNames });
+    return { url, type: 'script', kind: 'container', containerNames, guessedContainer: true, exposedModule };
+  }
+
+  /**
+   * Read a Module Federation 2 manifest: the remote entry is at
+   * `metaData.publicPath` + `remoteEntry.path` + `remoteEntry.name`, registered
+   * as `metaData.globalName` or, for `remoteEntry.type` 'module'/'esm', exported
+   * by an ES module. Without a declared `exposedModule`, './Block' is used if the
+   * manifest exposes it, otherwise its first exposed module.
+   */
+  public async _resolveManifestEntry(
+    blockId: string,
+    manifestUrl: string,
+    metadata: BlockMetadata,
+    timeout?: number,
+    cacheBust?: string,
+    source: BlockSource = this._getSource(blockId)
+  ): Promise<FederationEntry> {
+    let manifest: any;
+    try {
+      logger.debug('Fetching mf-manifest', { blockId, manifestUrl });
+      manifest = isSourceOrigin(manifestUrl, source)
+        ? (await authorizedRequest(source, headers => axios.get(manifestUrl, { timeout, headers }))).data
+        : (await axios.get(manifestUrl, { timeout })).data;
+    } catch (error: any) {
+      logger.error('Failed to fetch mf-manifest', { blockId, manifestUrl, message: error.message });
+      if (isUnauthorizedStatus(error.response?.status)) {
+        throw new UnauthorizedError(blockId, manifestUrl, { status: error.response.status, cause: error });
+      }
+      throw new ScriptLoadError(manifestUrl, { blockId, cause: error });
+    }
+
+    const meta = manifest?.metaData || {};
+    const remoteEntry = meta.remoteEntry || {};
+    if (!remoteEntry.name) {
+      throw new ScriptLoadError(manifestUrl, { blockId, cause: 'mf-manifest declares no remoteEntry' });
+    }
+
+    const publicPath = meta.publicPath && meta.publicPath !== 'auto' ? meta.publicPath : manifestUrl;
+    const entryPath = [remoteEntry.path, remoteEntry.name].filter(Boolean).join('/').replace(/\/{2,}/g, '/');
+    const entryUrl = new URL(entryPath, new URL(publicPath, manifestUrl)).href;
+    const exposes: Array<{ path?: string }> = Array.isArray(manifest.exposes) ? manifest.exposes : [];
+    const exposedModule = metadata.exposedModule
+      || (exposes.some(expose => expose.path === DEFAULT_EXPOSED_MODULE) ? DEFAULT_EXPOSED_MODULE : exposes[0]?.path)
+      || DEFAULT_EXPOSED_MODULE;
+    const containerName = metadata.containerName || meta.globalName || meta.name || manifest.name;
+
+    return {
+      url: cacheBust ? withCacheBust(entryUrl, cacheBust) : entryUrl,
+      type: remoteEntry.type === 'module' || remoteEntry.type === 'esm' ? 'module' : 'script',
+      kind: 'container',
+      containerNames: containerName ? [containerName] : getLegacyContainerNames(blockId),
+      guessedContainer: !containerName,
+      exposedModule
+    };
+  }
+
+  /**
+   * Load an ES module entry with import(). Integrity is checked through a
+   * modulepreload link, since import() can't carry it.
+   */
+  public async _importEntry(
+    entry: FederationEntry,
+    blockId: string,
+    timeout?: number,
+    attributes: ScriptAttributes = {},
+    source: BlockSource = this._getSource(blockId)
+  ): Promise<FederationModule> {
+    if (!isBrowser()) {
+      throw new BrowserRequiredError(`Importing module ${entry.url}`, { blockId });
+    }
+
+    try {
+      assertScriptOriginAllowed(entry.url, { blockId, implicitOrigins: this.getImplicitScriptOrigins() });
+    } catch (error) {
+      logger.error('Refusing to import a module from an origin outside allowedScriptOrigins', { blockId, url: entry.url });
+      throw error;
+    }
+
+    if (this._usesScriptAuth(entry.url, blockId, source) && getScriptAuth() === 'fetch') {
+      logger.warn('import() can\'t send the token; ES module blocks need a URL signer or cookie auth', { blockId, url: entry.url });
+    }
+
+    ensureImportMap();
+    if (attributes.integrity) {
+      await withTimeout(this._preloadModuleScript(entry.url, blockId, attributes), timeout, `Preloading module ${entry.url}`);
+    }
+
+    let namespace: any;
+    try {
+      logger.debug('Importing module', { blockId, url: entry.url });
+      namespace = await withTimeout(importModule(entry.url), timeout, `Importing module ${entry.url}`);
+    } catch (error) {
+      if (error instanceof BlockLoadError) throw error;
+      logger.error('Module failed to import', { blockId, url: entry.url, error });
+      throw new ScriptLoadError(entry.url, { blockId, cause: error });
+    }
+
+    let module: any = namespace;
+    if (entry.kind === 'container') {
+      if (typeof namespace?.get !== 'function') {
+        throw new ContainerNotFoundError(blockId, [entry.url]);
+      }
+      await initContainer(namespace, blockId, entry.url);
+      module = (await namespace.get(entry.exposedModule))();
+    }
+
+    const mountFunction = module?.mount || module?.default?.mount;
+    if (typeof mountFunction !== 'function') {
+      throw new MissingMountError(blockId, Object.keys(module || {}));
+    }
+    return module;
+  }
+
+  public _preloadModuleScript(url: string, blockId: string, attributes: ScriptAttributes = {}): Promise<void> {
+    if (document.querySelector(`link[rel="modulepreload"][href="${url}"]`)) {
+      return Promise.resolve();
+    }
+
+    return new Promise<void>((resolve, reject) => {
+      const link = document.createElement('link');
+      link.rel = 'modulepreload';
+      link.href = url;
+      applyScriptAttributes(link, attributes);
+      link.onload = () => resolve();
+      link.onerror = (event) => {
+        link.remove();
+        reject(new ScriptLoadError(url, { blockId, cause: event }));
+      };
+      document.head.appendChild(link);
+    });
+  }
+
+  /**
+   * Find the block's container under the name its metadata declares. Builds that
+   * don't declare one fall back to guessing from the block ID (logged, legacy).
+   * A global another block was already loaded from is never used for this block:
+   * a declared name fails with ContainerCollisionError, a guessed one is skipped.
+   */
+  public async _extractModule(
+    blockId: string,
+    entry: Pick<FederationEntry, 'containerNames' | 'exposedModule' | 'guessedContainer'>
+  ): Promise<{ module: FederationModule; containerName: string }> {
+    if (!isBrowser()) {
+      throw new BrowserRequiredError('Extracting a federation container', { blockId });
+    }
+
+    const { exposedModule } = entry;
+    const possibleNames = entry.containerNames;
+
+    logger.debug('Trying federation container names', { blockId, possibleNames, exposedModule });
+    let exportsWithoutMount: string[] | null = null;
 
     for (const name of possibleNames) {
       const container = (window as any)[name];
       if (container && container.get) {
-        console.log(`✅ Found federation container: ${name}`);
+        const owner = this.containerOwners[name];
+        if (owner && owner.blockId !== blockId) {
+          if (owner.container === container) {
+            // This block's script didn't register anything under the name; the global is the other block's
+            logger.error('Container global belongs to another block', { blockId, name, ownerBlockId: owner.blockId });
+            if (!entry.guessedContainer) {
+              throw new ContainerCollisionError(blockId, name, owner.blockId);
+            }
+            continue;
+          }
+          logger.error('Block replaced the container global of another block', { blockId, name, ownerBlockId: owner.blockId });
+        }
+
+        logger.debug('Found federation container', { blockId, name });
         
         try {
-          const factory = await container.get('./Block');
+          // Hand the container the host's shared libraries before anything is requested from it
+          await initContainer(container, blockId, name);
+          const factory = await container.get(exposedModule);
           const module = factory();
           
           // Validate that the module has a mount function
           const mountFunction = module.mount || module.default?.mount;
           if (typeof mountFunction === 'function') {
-            return module;
+            this.containerOwners[name] = { blockId, container };
+            return { module, containerName: name };
           } else {
-            console.warn(`⚠️ Module ${name} does not export a mount function`);
+            logger.warn('Module does not export a mount function', { blockId, name });
+            exportsWithoutMount = Object.keys(module || {});
           }
         } catch (error) {
-          console.warn(`⚠️ Failed to get module from container ${name}:`, error);
+          logger.warn('Failed to get module from container', { blockId, name, error });
         }
       }
     }
@@ -232,22 +1481,61 @@ class FederationLoader {
       const obj = (window as any)[key];
       return obj && typeof obj === 'object' && 'get' in obj;
     });
-    console.log(`🔍 Available federation containers:`, federationLike);
+    logger.debug('Available federation containers', { blockId, federationLike });
+
+    if (exportsWithoutMount) {
+      throw new MissingMountError(blockId, exportsWithoutMount);
+    }
 
-    throw new Error(`Federation container not found for block ${blockId}. Tried: ${possibleNames.join(', ')}`);
+    throw new ContainerNotFoundError(blockId, possibleNames);
   }
 
   /**
-   * Clear cache for a specific block or all blocks
+   * Clear cache for a specific block (all of its versions) or all blocks
    */
   clearCache(blockId?: string): void {
     if (blockId) {
-      delete this.cache[blockId];
+      Object.keys(this.cache)
+        .filter(key => this.cache[key].blockId === blockId)
+        .forEach(key => delete this.cache[key]);
+      Object.keys(this.preloadedMetadata)
+        .filter(key => isCacheKeyOf(key, blockId))
+        .forEach(key => delete this.preloadedMetadata[key]);
+      Object.keys(this.metadataCache)
+        .filter(key => isCacheKeyOf(key, blockId))
+        .forEach(key => delete this.metadataCache[key]);
     } else {
       this.cache = {};
+      this.preloadedMetadata = {};
+      this.metadataCache = {};
     }
   }
 
+  /**
+   * Full script URL a loaded module came from, used to attribute runtime errors to it
+   */
+  getModuleScriptUrl(module: FederationModule): string | null {
+    const entry = Object.values(this.cache).find(cached => cached.component === module);
+    return entry ? entry.scriptUrl || this.resolveUrl(entry.federationUrl, entry.blockId, entry.source) : null;
+  }
+
+  /**
+   * The script URL of a loaded module plus the chunks it loaded, to attribute runtime errors to it
+   */
+  getModuleScriptUrls(module: FederationModule): string[] {
+    const scriptUrl = this.getModuleScriptUrl(module);
+    const entry = Object.values(this.cache).find(cached => cached.component === module);
+    return scriptUrl ? [scriptUrl, ...(entry?.chunkUrls ?? [])] : [];
+  }
+
+  /**
+   * Stylesheets a loaded module added to document.head while loading
+   */
+  getModuleStyles(module: FederationModule): HTMLElement[] {
+    const entry = Object.values(this.cache).find(cached => cached.component === module);
+    return entry?.styles ?? [];
+  }
+
   /**
    * Get cache info for debugging
    */
@@ -0,0 +1,55 @@
+import { createLogger } from './logger';
+import { getScriptNonce } from './scriptSecurity';
+
+const logger = createLogger('importMap');
+
+/**
+ * Import map for blocks loaded as ES modules: lets them share dependency URLs,
+ * e.g. { imports: { three: 'https://cdn.example.com/three@0.160.0/build/three.module.js' } }
+ */
+export interface ImportMap {
+  imports?: { [specifier: string]: string };
+  scopes?: { [scope: string]: { [specifier: string]: string } };
+  integrity?: { [url: string]: string };
+}
+
+let importMap: ImportMap | null = null;
+let injected: string | null = null;
+
+/**
+ * Set the import map. It's added to the page before the first ES module block
+ * loads; browsers apply import maps to module loads that come after them, so set
+ * it during startup.
+ */
+export function setImportMap(map: ImportMap | null): void {
+  importMap = map;
+}
+
+export function getImportMap(): ImportMap | null {
+  return importMap;
+}
+
+/**
+ * Add the import map to the document if it isn't there yet. A map that changed
+ * after one was added goes in as another map, which only browsers that merge
+ * import maps apply.
+ */
+export function ensureImportMap(): void {
+  if (!importMap || typeof document === 'undefined') return;
+
+  const json = JSON.stringify(importMap);
+  if (json === injected) return;
+
+  if (injected !== null) {
+    logger.warn('Import map changed after ES module blocks loaded; older browsers ignore the update');
+  }
+
+  const script = document.createElement('script');
+  script.type = 'importmap';
+  script.textContent = json;
+  const nonce = getScriptNonce();
+  if (nonce) script.nonce = nonce;
+  document.head.prepend(script);
+  injected = json;
+  logger.debug('Added import map', { imports: Object.keys(importMap.imports || {}) });
+}
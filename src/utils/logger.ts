@@ -0,0 +1,101 @@
+export type LogLevel = 'silent' | 'error' | 'warn' | 'info' | 'debug';
+
+/**
+ * Structured log event handed to the configured sink
+ */
+export interface LogEvent {
+  level: Exclude<LogLevel, 'silent'>;
+  namespace: string;
+  message: string;
+  data?: any;
+  timestamp: number;
+}
+
+export type LogSink = (event: LogEvent) => void;
+
+export interface Logger {
+  error(message: string, data?: any): void;
+  warn(message: string, data?: any): void;
+  info(message: string, data?: any): void;
+  debug(message: string, data?: any): void;
+}
+
+const LEVEL_PRIORITY: { [level in LogLevel]: number } = {
+  silent: 0,
+  error: 1,
+  warn: 2,
+  info: 3,
+  debug: 4
+};
+
+/**
+ * Default sink: forwards to the console with a `[mext:namespace]` prefix
+ */
+export const consoleSink: LogSink = ({ level, namespace, message, data }) => {
+  const prefix = `[mext:${namespace}]`;
+  const write = level === 'debug' ? console.debug : console[level];
+  if (data !== undefined) {
+    write(`${prefix} ${message}`, data);
+  } else {
+    write(`${prefix} ${message}`);
+  }
+};
+
+let defaultLevel: LogLevel = 'warn';
+let namespaceLevels: { [namespace: string]: LogLevel } = {};
+let sink: LogSink = consoleSink;
+
+/**
+ * Set the global log level, or per-namespace levels with `*` as the default
+ */
+export function setLogLevel(level: LogLevel | { [namespace: string]: LogLevel }): void {
+  if (typeof level === 'string') {
+    defaultLevel = level;
+    namespaceLevels = {};
+    return;
+  }
+
+  const { '*': fallback, ...overrides } = level;
+  if (fallback) {
+    defaultLevel = fallback;
+  }
+  namespaceLevels = overrides;
+}
+
+/**
+ * Get the effective log level for a namespace
+ */
+export function getLogLevel(namespace?: string): LogLevel {
+  return (namespace && namespaceLevels[namespace]) || defaultLevel;
+}
+
+/**
+ * Route all log events to a custom sink, or back to the console when omitted
+ */
+export function setLogSink(customSink?: LogSink): void {
+  sink = customSink || consoleSink;
+}
+
+function emit(level: LogEvent['level'], namespace: string, message: string, data?: any): void {
+  if (LEVEL_PRIORITY[level] > LEVEL_PRIORITY[getLogLevel(namespace)]) {
+    return;
+  }
+
+  try {
+    sink({ level, namespace, message, data, timestamp: Date.now() });
+  } catch {
+    // A broken sink must never break block loading
+  }
+}
+
+/**
+ * Create a logger bound to a module namespace
+ */
+export function createLogger(namespace: string): Logger {
+  return {
+    error: (message, data) => emit('error', namespace, message, data),
+    warn: (message, data) => emit('warn', namespace, message, data),
+    info: (message, data) => emit('info', namespace, message, data),
+    debug: (message, data) => emit('debug', namespace, message, data)
+  };
+}
@@ -0,0 +1,107 @@
+import type { BlockIsolation, MountContext, MountFunction, MountHandle } from './federationLoader';
+import { adoptStyles, attachShadowMountPoint, retainDocumentStyles, startStyleCapture } from './styleIsolation';
+
+/**
+ * Element a block is mounted into, and the context handed to its mount function
+ */
+export interface MountTarget {
+  element: HTMLElement;
+  context: MountContext;
+  // Call once the target is done with, so document.head styles it holds can be taken out
+  release: () => void;
+}
+
+/**
+ * Normalize whatever a block's mount function returned into a MountHandle.
+ * Legacy blocks return nothing or a cleanup function; those handles have no
+ * `update`, which tells callers to fall back to remounting on prop changes.
+ */
+export function normalizeMountResult(result: ReturnType<MountFunction>): MountHandle {
+  if (typeof result === 'function') {
+    return { unmount: result };
+  }
+
+  if (result && typeof result === 'object') {
+    return {
+      update: typeof result.update === 'function' ? result.update.bind(result) : undefined,
+      unmount: typeof result.unmount === 'function' ? result.unmount.bind(result) : () => {}
+    };
+  }
+
+  return { unmount: () => {} };
+}
+
+/**
+ * Shallow comparison used to skip pushing identical props into a mounted block
+ */
+export function arePropsShallowEqual(a: any, b: any): boolean {
+  if (a === b) return true;
+  if (!a || !b || typeof a !== 'object' || typeof b !== 'object') return false;
+
+  const keysA = Object.keys(a);
+  const keysB = Object.keys(b);
+  if (keysA.length !== keysB.length) return false;
+
+  return keysA.every(key => Object.prototype.hasOwnProperty.call(b, key) && Object.is(a[key], b[key]));
+}
+
+/**
+ * Prepare the host element for a mount. In 'shadow' mode the block goes into a
+ * mount point inside the host's shadow root, next to copies of its stylesheets.
+ * In 'iframe' mode the host itself receives the sandbox frame.
+ */
+export function prepareMountTarget(host: HTMLElement, options: {
+  isolation?: BlockIsolation;
+  styles?: HTMLElement[];
+  reportError?: (error: unknown) => void;
+  emit?: (name: string, payload?: any) => void;
+} = {}): MountTarget {
+  const { isolation = 'none', styles = [], reportError, emit } = options;
+
+  if (isolation === 'shadow') {
+    const { mountPoint, shadowRoot } = attachShadowMountPoint(host, styles);
+    return { element: mountPoint, context: { isolation, styleRoot: shadowRoot, reportError, emit }, release: () => {} };
+  }
+
+  const release = isolation === 'none' ? retainDocumentStyles(styles) : () => {};
+  return { element: host, context: { isolation, styleRoot: document, reportError, emit }, release };
+}
+
+/**
+ * Mount a block into a container, clearing anything a previous mount left behind.
+ * Stylesheets a shadow-isolated block adds to document.head while mounting are
+ * moved into its shadow root.
+ */
+export function mountInto(container: HTMLElement, mountFunction: MountFunction, props: any, context?: MountContext): MountHandle {
+  container.replaceChildren();
+
+  const styleRoot = context?.styleRoot;
+  if (context?.isolation !== 'shadow' || !(styleRoot instanceof ShadowRoot)) {
+    return normalizeMountResult(mountFunction(container, props, context));
+  }
+
+  const stopStyleCapture = startStyleCapture();
+  try {
+    return normalizeMountResult(mountFunction(container, props, context));
+  } finally {
+    adoptStyles(styleRoot, stopStyleCapture());
+  }
+}
+
+/**
+ * Run a block's cleanup and empty its container so it can be mounted again
+ */
+export function unmountFrom(container: HTMLElement | null, handle: MountHandle | null): void {
+  try {
+    handle?.unmount();
+  } finally {
+    container?.replaceChildren();
+  }
+}
+
+/**
+ * Attach a block to server-rendered markup already in the container
+ */
+export function hydrateInto(container: HTMLElement, hydrateFunction: MountFunction, props: any, context?: MountContext): MountHandle {
+  return normalizeMountResult(hydrateFunction(container, props, context));
+}
@@ -0,0 +1,243 @@
+import { createLogger } from './logger';
+
+const logger = createLogger('persistentCache');
+
+/**
+ * Key-value storage the persistent cache writes through. Values are plain JSON data.
+ */
+export interface PersistentStorage {
+  get(key: string): Promise<any | undefined>;
+  set(key: string, value: any): Promise<void>;
+  delete(key: string): Promise<void>;
+  keys(): Promise<string[]>;
+}
+
+export interface PersistentCacheOptions {
+  // 'indexeddb' falls back to 'localstorage', then 'memory', when unavailable
+  storage: 'indexeddb' | 'localstorage' | 'memory' | PersistentStorage;
+  // Entries older than this are never served, even offline, in ms (default 7 days)
+  maxAge?: number;
+  // Also keep federation script source, so blocks can boot without the network
+  scripts?: boolean;
+}
+
+export interface PersistedEntry<T> {
+  value: T;
+  storedAt: number;
+}
+
+interface ActiveCache {
+  storage: PersistentStorage;
+  maxAge: number;
+  scripts: boolean;
+}
+
+const DEFAULT_MAX_AGE = 7 * 24 * 60 * 60 * 1000;
+
+let activeCache: ActiveCache | null = null;
+
+/**
+ * In-memory storage: the persistent cache's behaviour without persistence, for tests
+ */
+export function createMemoryStorage(): PersistentStorage {
+  const entries = new Map<string, any>();
+  return {
+    get: async (key) => entries.get(key),
+    set: async (key, value) => {
+      entries.set(key, value);
+    },
+    delete: async (key) => {
+      entries.delete(key);
+    },
+    keys: async () => Array.from(entries.keys())
+  };
+}
+
+/**
+ * localStorage-backed storage; keys are namespaced with `prefix`. Writes that
+ * exceed the quota are dropped with a warning.
+ */
+export function createLocalStorageStorage(prefix = 'mext-block:'): PersistentStorage {
+  return {
+    get: async (key) => {
+      const raw = window.localStorage.getItem(prefix + key);
+      if (raw === null) return undefined;
+      try {
+        return JSON.parse(raw);
+      } catch {
+        return undefined;
+      }
+    },
+    set: async (key, value) => {
+      try {
+        window.localStorage.setItem(prefix + key, JSON.stringify(value));
+      } catch (error) {
+        logger.warn('Could not write to localStorage', { key, error });
+      }
+    },
+    delete: async (key) => {
+      window.localStorage.removeItem(prefix + key);
+    },
+    keys: async () => {
+      const keys: string[] = [];
+      for (let index = 0; index < window.localStorage.length; index++) {
+        const key = window.localStorage.key(index);
+        if (key && key.startsWith(prefix)) keys.push(key.slice(prefix.length));
+      }
+      return keys;
+    }
+  };
+}
+
+function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+/**
+ * IndexedDB-backed storage: one object store, opened lazily on first use
+ */
+export function createIndexedDBStorage(databaseName = 'mext-block', storeName = 'cache'): PersistentStorage {
+  let database: Promise<IDBDatabase> | null = null;
+
+  const open = () => {
+    if (!database) {
+      const request = window.indexedDB.open(databaseName, 1);
+      request.onupgradeneeded = () => {
+        if (!request.result.objectStoreNames.contains(storeName)) {
+          request.result.createObjectStore(storeName);
+        }
+      };
+      database = requestToPromise(request);
+      // A failed open is retried on the next call rather than cached
+      database.catch(() => {
+        database = null;
+      });
+    }
+    return database;
+  };
+
+  const run = async <T>(mode: IDBTransactionMode, operation: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> => {
+    const db = await open();
+    return requestToPromise(operation(db.transaction(storeName, mode).objectStore(storeName)));
+  };
+
+  return {
+    get: (key) => run('readonly', store => store.get(key)),
+    set: async (key, value) => {
+      await run('readwrite', store => store.put(value, key));
+    },
+    delete: async (key) => {
+      await run('readwrite', store => store.delete(key));
+    },
+    keys: async () => (await run('readonly', store => store.getAllKeys())).map(String)
+  };
+}
+
+function createStorage(kind: PersistentCacheOptions['storage']): PersistentStorage {
+  if (typeof kind === 'object') {
+    return kind;
+  }
+
+  const hasWindow = typeof window !== 'undefined';
+  if (kind === 'indexeddb' && hasWindow && window.indexedDB) {
+    return createIndexedDBStorage();
+  }
+  if ((kind === 'indexeddb' || kind === 'localstorage') && hasWindow) {
+    try {
+      if (window.localStorage) return createLocalStorageStorage();
+    } catch {
+      // Access to localStorage throws when storage is disabled
+    }
+  }
+  if (kind !== 'memory') {
+    logger.warn('Requested storage is unavailable, keeping the cache in memory', { storage: kind });
+  }
+  return createMemoryStorage();
+}
+
+/**
+ * Enable the persistent cache for the registry, block metadata and, optionally,
+ * script source, or turn it off with `null`
+ */
+export function setPersistentCache(options: PersistentCacheOptions | null): void {
+  activeCache = options
+    ? {
+        storage: createStorage(options.storage),
+        maxAge: options.maxAge ?? DEFAULT_MAX_AGE,
+        scripts: options.scripts ?? false
+      }
+    : null;
+}
+
+export function isPersistentCacheEnabled(): boolean {
+  return activeCache !== null;
+}
+
+export function isScriptCacheEnabled(): boolean {
+  return activeCache !== null && activeCache.scripts;
+}
+
+/**
+ * Read a persisted entry. Storage failures and expired entries read as a miss.
+ */
+export async function readPersisted<T>(key: string): Promise<PersistedEntry<T> | undefined> {
+  if (!activeCache) return undefined;
+  const { storage, maxAge } = activeCache;
+
+  try {
+    const entry = await storage.get(key);
+    if (!entry || typeof entry.storedAt !== 'number') return undefined;
+    if (Date.now() - entry.storedAt > maxAge) {
+      await storage.delete(key);
+      return undefined;
+    }
+    return entry;
+  } catch (error) {
+    logger.warn('Could not read persistent cache', { key, error });
+    return undefined;
+  }
+}
+
+/**
+ * Write an entry; failures are logged and otherwise ignored
+ */
+export async function writePersisted<T>(key: string, value: T): Promise<void> {
+  if (!activeCache) return;
+
+  try {
+    await activeCache.storage.set(key, { value, storedAt: Date.now() } as PersistedEntry<T>);
+  } catch (error) {
+    logger.warn('Could not write persistent cache', { key, error });
+  }
+}
+
+/**
+ * Remove one entry; failures are logged and otherwise ignored
+ */
+export async function deletePersisted(key: string): Promise<void> {
+  if (!activeCache) return;
+
+  try {
+    await activeCache.storage.delete(key);
+  } catch (error) {
+    logger.warn('Could not delete from persistent cache', { key, error });
+  }
+}
+
+/**
+ * Remove persisted entries whose keys start with `prefix`, or all of them
+ */
+export async function clearPersistentCache(prefix = ''): Promise<void> {
+  if (!activeCache) return;
+  const { storage } = activeCache;
+
+  try {
+    const keys = await storage.keys();
+    await Promise.all(keys.filter(key => key.startsWith(prefix)).map(key => storage.delete(key)));
+  } catch (error) {
+    logger.warn('Could not clear persistent cache', { prefix, error });
+  }
+}
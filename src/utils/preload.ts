@@ -0,0 +1,82 @@
+import { federationLoader } from './federationLoader';
+import type { FederationModule } from './federationLoader';
+import { blockRegistry } from './blockRegistry';
+import type { ResolvedBlock } from './blockRegistry';
+import { BlockNotInRegistryError } from './errors';
+import type { RetryPolicy } from './retry';
+import { createLogger } from './logger';
+
+const logger = createLogger('preload');
+
+/**
+ * What to warm up: a block ID, a global component name, or an author's component
+ */
+export type PreloadTarget =
+  | string
+  | { blockId: string; version?: string; source?: string }
+  | { componentName: string; version?: string }
+  | { author: string; component: string; version?: string };
+
+export interface PreloadOptions {
+  retryPolicy?: Partial<RetryPolicy>;
+}
+
+export interface PrefetchOptions extends PreloadOptions {
+  // Link relation used for the hint; 'modulepreload' suits ES module builds
+  rel?: 'prefetch' | 'preload' | 'modulepreload';
+}
+
+/**
+ * Resolve any preload target to a block ID and version via the registry when needed
+ */
+export async function resolvePreloadTarget(target: PreloadTarget): Promise<ResolvedBlock> {
+  if (typeof target === 'string') {
+    return { blockId: target };
+  }
+
+  if ('blockId' in target) {
+    return { blockId: target.blockId, version: target.version, source: target.source };
+  }
+
+  if ('author' in target) {
+    const resolved = await blockRegistry.resolveAuthorBlock(target.author, target.component, target.version);
+    if (!resolved) {
+      throw new BlockNotInRegistryError(target.component, { author: target.author });
+    }
+    return resolved;
+  }
+
+  const resolved = await blockRegistry.resolveBlock(target.componentName, target.version);
+  if (!resolved) {
+    throw new BlockNotInRegistryError(target.componentName, {
+      availableComponents: await blockRegistry.getAvailableComponents()
+    });
+  }
+  return resolved;
+}
+
+/**
+ * Fetch metadata and download + execute a block's script, so a later render mounts immediately
+ */
+export async function preloadBlock(target: PreloadTarget, options: PreloadOptions = {}): Promise<FederationModule> {
+  const { blockId, version, source } = await resolvePreloadTarget(target);
+  logger.debug('Preloading block', { blockId, version });
+  return federationLoader.loadModule(blockId, { version, retryPolicy: options.retryPolicy, source });
+}
+
+/**
+ * Only hint the browser to download a block's script (`<link rel="prefetch">`), without executing it
+ */
+export async function prefetchBlock(target: PreloadTarget, options: PrefetchOptions = {}): Promise<void> {
+  const { blockId, version, source } = await resolvePreloadTarget(target);
+  const exactVersion = version
+    ? await federationLoader.resolveVersion(blockId, version, { retryPolicy: options.retryPolicy, source })
+    : undefined;
+  logger.debug('Prefetching block', { blockId, version: exactVersion });
+  await federationLoader.prefetchModule(blockId, {
+    version: exactVersion,
+    retryPolicy: options.retryPolicy,
+    rel: options.rel,
+    source
+  });
+}
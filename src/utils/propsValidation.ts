@@ -0,0 +1,358 @@
+export type PropType = 'string' | 'number' | 'integer' | 'boolean' | 'array' | 'object' | 'function' | 'null';
+
+/**
+ * JSON Schema subset used for block props. 'function' declares a callback prop
+ * (e.g. onScore) the block calls into the host.
+ */
+export interface PropSchema {
+  type?: PropType | PropType[];
+  description?: string;
+  // `true` marks this property required (legacy form); a list names required children of an object
+  required?: boolean | string[];
+  default?: any;
+  enum?: any[];
+  const?: any;
+  // Numbers
+  minimum?: number;
+  maximum?: number;
+  exclusiveMinimum?: number;
+  exclusiveMaximum?: number;
+  multipleOf?: number;
+  // Strings
+  minLength?: number;
+  maxLength?: number;
+  pattern?: string;
+  format?: 'email' | 'uri' | 'url' | 'date' | 'date-time' | 'uuid' | 'color' | string;
+  // Arrays
+  items?: PropSchema;
+  minItems?: number;
+  maxItems?: number;
+  uniqueItems?: boolean;
+  // Objects
+  properties?: { [propName: string]: PropSchema };
+  additionalProperties?: boolean | PropSchema;
+}
+
+/**
+ * Schema of a block's top-level props (`BlockMetadata.blockProps`)
+ */
+export interface BlockPropsSchema extends PropSchema {
+  type: 'object';
+  properties: { [propName: string]: PropSchema };
+  required?: string[];
+}
+
+/**
+ * 'warn' reports issues and passes props through unchanged, 'coerce' converts
+ * what it can (numeric strings, clamped numbers) and replaces the rest with the
+ * default or drops it, 'strict' refuses to mount the block
+ */
+export type ValidationMode = 'warn' | 'coerce' | 'strict';
+
+export interface ValidationIssue {
+  // Location of the value, e.g. 'settings.colors[1]'
+  path: string;
+  // Schema keyword that failed: 'type', 'required', 'minimum', 'pattern', ...
+  keyword: string;
+  message: string;
+  value?: any;
+}
+
+export interface ValidationResult {
+  valid: boolean;
+  // Props to mount with: defaults applied, and coerced in 'coerce' mode
+  value: any;
+  issues: ValidationIssue[];
+}
+
+const FORMATS: { [format: string]: (value: string) => boolean } = {
+  email: value => /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(value),
+  uri: value => isUrl(value),
+  url: value => isUrl(value),
+  date: value => /^\d{4}-\d{2}-\d{2}$/.test(value) && !isNaN(Date.parse(value)),
+  'date-time': value => /^\d{4}-\d{2}-\d{2}T/.test(value) && !isNaN(Date.parse(value)),
+  uuid: value => /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i.test(value),
+  color: value => /^#([0-9a-f]{3,4}|[0-9a-f]{6}|[0-9a-f]{8})$/i.test(value)
+};
+
+function isUrl(value: string): boolean {
+  try {
+    new URL(value);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+function isPlainObject(value: any): boolean {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function matchesType(value: any, type: PropType): boolean {
+  switch (type) {
+    case 'string':
+      return typeof value === 'string';
+    case 'number':
+      return typeof value === 'number' && Number.isFinite(value);
+    case 'integer':
+      return typeof value === 'number' && Number.isInteger(value);
+    case 'boolean':
+      return typeof value === 'boolean';
+    case 'array':
+      return Array.isArray(value);
+    case 'object':
+      return isPlainObject(value);
+    case 'function':
+      return typeof value === 'function';
+    case 'null':
+      return value === null;
+    default:
+      return true; // Allow unknown types
+  }
+}
+
+/**
+ * Convert a value to one of the types if there's an unambiguous conversion
+ */
+function coerceType(value: any, types: PropType[]): { ok: boolean; value?: any } {
+  for (const type of types) {
+    if ((type === 'number' || type === 'integer') && typeof value === 'string' && value.trim() !== '') {
+      const number = Number(value);
+      if (matchesType(number, type)) return { ok: true, value: number };
+    }
+    if (type === 'boolean' && (value === 'true' || value === 'false')) {
+      return { ok: true, value: value === 'true' };
+    }
+    if (type === 'string' && (typeof value === 'number' || typeof value === 'boolean')) {
+      return { ok: true, value: String(value) };
+    }
+  }
+  return { ok: false };
+}
+
+function isEqual(a: any, b: any): boolean {
+  if (Object.is(a, b)) return true;
+  if (typeof a !== 'object' || typeof b !== 'object' || !a || !b) return false;
+  if (Array.isArray(a) !== Array.isArray(b)) return false;
+
+  const keysA = Object.keys(a);
+  const keysB = Object.keys(b);
+  return keysA.length === keysB.length && keysA.every(key => isEqual(a[key], b[key]));
+}
+
+function describe(value: any): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  return typeof value;
+}
+
+// One copy of each object default per schema, so a defaulted prop keeps its identity across validations
+const defaultCopies = new WeakMap<PropSchema, any>();
+
+function cloneDefault(schema: PropSchema): any {
+  const value = schema.default;
+  if (!value || typeof value !== 'object') return value;
+
+  if (!defaultCopies.has(schema)) {
+    defaultCopies.set(schema, JSON.parse(JSON.stringify(value)));
+  }
+  return defaultCopies.get(schema);
+}
+
+class PropsValidator {
+  public issues: ValidationIssue[] = [];
+
+  constructor(private mode: ValidationMode) {}
+
+  /**
+   * Record an issue and return what to use instead: the default (or nothing)
+   * when coercing, otherwise the original value
+   */
+  private fail(path: string, keyword: string, message: string, value: any, schema: PropSchema): any {
+    this.issues.push({ path: path || '(props)', keyword, message, value });
+    return this.mode === 'coerce' ? cloneDefault(schema) : value;
+  }
+
+  /**
+   * Record an issue that was fixed by coercing, and return the fixed value
+   */
+  private coerced(path: string, keyword: string, message: string, value: any, fixed: any): any {
+    this.issues.push({ path: path || '(props)', keyword, message, value });
+    return fixed;
+  }
+
+  validate(value: any, schema: PropSchema, path: string): any {
+    const types = schema.type === undefined ? null : Array.isArray(schema.type) ? schema.type : [schema.type];
+    let current = value;
+
+    if (types && !types.some(type => matchesType(current, type))) {
+      const coerced = this.mode === 'coerce' ? coerceType(current, types) : { ok: false };
+      if (!coerced.ok) {
+        return this.fail(path, 'type', `Expected ${types.join(' or ')}, got ${describe(current)}`, value, schema);
+      }
+      current = coerced.value;
+    }
+
+    if (schema.enum && !schema.enum.some(option => isEqual(option, current))) {
+      return this.fail(path, 'enum', `Must be one of ${schema.enum.map(option => JSON.stringify(option)).join(', ')}`, value, schema);
+    }
+
+    if (schema.const !== undefined && !isEqual(schema.const, current)) {
+      return this.fail(path, 'const', `Must equal ${JSON.stringify(schema.const)}`, value, schema);
+    }
+
+    if (typeof current === 'number') {
+      return this.validateNumber(current, value, schema, path);
+    }
+
+    if (typeof current === 'string') {
+      return this.validateString(current, value, schema, path);
+    }
+
+    if (Array.isArray(current)) {
+      return this.validateArray(current, schema, path);
+    }
+
+    if (isPlainObject(current) && (schema.properties || schema.required || schema.additionalProperties !== undefined)) {
+      return this.validateObject(current, schema, path);
+    }
+
+    return current;
+  }
+
+  private validateNumber(current: number, original: any, schema: PropSchema, path: string): any {
+    const clamp = this.mode === 'coerce';
+
+    if (schema.minimum !== undefined && current < schema.minimum) {
+      if (clamp) return this.coerced(path, 'minimum', `Must be >= ${schema.minimum}, clamped`, original, schema.minimum);
+      return this.fail(path, 'minimum', `Must be >= ${schema.minimum}`, original, schema);
+    }
+    if (schema.maximum !== undefined && current > schema.maximum) {
+      if (clamp) return this.coerced(path, 'maximum', `Must be <= ${schema.maximum}, clamped`, original, schema.maximum);
+      return this.fail(path, 'maximum', `Must be <= ${schema.maximum}`, original, schema);
+    }
+    if (schema.exclusiveMinimum !== undefined && current <= schema.exclusiveMinimum) {
+      return this.fail(path, 'exclusiveMinimum', `Must be > ${schema.exclusiveMinimum}`, original, schema);
+    }
+    if (schema.exclusiveMaximum !== undefined && current >= schema.exclusiveMaximum) {
+      return this.fail(path, 'exclusiveMaximum', `Must be < ${schema.exclusiveMaximum}`, original, schema);
+    }
+    if (schema.multipleOf !== undefined && schema.multipleOf > 0) {
+      const quotient = current / schema.multipleOf;
+      if (Math.abs(quotient - Math.round(quotient)) > 1e-9) {
+        return this.fail(path, 'multipleOf', `Must be a multiple of ${schema.multipleOf}`, original, schema);
+      }
+    }
+
+    return current;
+  }
+
+  private validateString(current: string, original: any, schema: PropSchema, path: string): any {
+    if (schema.minLength !== undefined && current.length < schema.minLength) {
+      return this.fail(path, 'minLength', `Must be at least ${schema.minLength} characters`, original, schema);
+    }
+    if (schema.maxLength !== undefined && current.length > schema.maxLength) {
+      return this.fail(path, 'maxLength', `Must be at most ${schema.maxLength} characters`, original, schema);
+    }
+    if (schema.pattern !== undefined) {
+      let matches = true;
+      try {
+        matches = new RegExp(schema.pattern).test(current);
+      } catch {
+        // An invalid pattern in the schema is the block author's problem, not the host's
+      }
+      if (!matches) {
+        return this.fail(path, 'pattern', `Must match ${schema.pattern}`, original, schema);
+      }
+    }
+    if (schema.format && FORMATS[schema.format] && !FORMATS[schema.format](current)) {
+      return this.fail(path, 'format', `Must be a valid ${schema.format}`, original, schema);
+    }
+
+    return current;
+  }
+
+  private validateArray(current: any[], schema: PropSchema, path: string): any {
+    if (schema.minItems !== undefined && current.length < schema.minItems) {
+      return this.fail(path, 'minItems', `Must have at least ${schema.minItems} items`, current, schema);
+    }
+    if (schema.maxItems !== undefined && current.length > schema.maxItems) {
+      return this.fail(path, 'maxItems', `Must have at most ${schema.maxItems} items`, current, schema);
+    }
+    if (schema.uniqueItems && current.some((item, index) => current.findIndex(other => isEqual(other, item)) !== index)) {
+      return this.fail(path, 'uniqueItems', 'Items must be unique', current, schema);
+    }
+
+    if (!schema.items) {
+      return current;
+    }
+
+    const validated = current.map((item, index) => this.validate(item, schema.items as PropSchema, `${path}[${index}]`));
+    // When coercing, items that couldn't be fixed and have no default are dropped
+    const items = this.mode === 'coerce' ? validated.filter(item => item !== undefined) : validated;
+    // An unchanged array keeps its identity, so the mounted block isn't updated for nothing
+    return items.length === current.length && items.every((item, index) => item === current[index]) ? current : items;
+  }
+
+  validateObject(current: { [key: string]: any }, schema: PropSchema, path: string): any {
+    const properties = schema.properties || {};
+    const requiredNames = Array.isArray(schema.required) ? schema.required : [];
+    const result: { [key: string]: any } = {};
+
+    Object.entries(properties).forEach(([name, propSchema]) => {
+      const childPath = path ? `${path}.${name}` : name;
+      const value = current[name];
+
+      if (value === undefined) {
+        if (propSchema.default !== undefined) {
+          result[name] = cloneDefault(propSchema);
+        } else if (requiredNames.includes(name) || propSchema.required === true) {
+          this.issues.push({ path: childPath, keyword: 'required', message: 'Is required' });
+        }
+        return;
+      }
+
+      const validated = this.validate(value, propSchema, childPath);
+      if (validated !== undefined) {
+        result[name] = validated;
+      }
+    });
+
+    requiredNames
+      .filter(name => !(name in properties) && current[name] === undefined)
+      .forEach(name => this.issues.push({ path: path ? `${path}.${name}` : name, keyword: 'required', message: 'Is required' }));
+
+    Object.keys(current)
+      .filter(name => !(name in properties))
+      .forEach(name => {
+        const childPath = path ? `${path}.${name}` : name;
+        if (schema.additionalProperties === false) {
+          this.issues.push({ path: childPath, keyword: 'additionalProperties', message: 'Is not allowed', value: current[name] });
+          if (this.mode !== 'coerce') result[name] = current[name];
+        } else if (schema.additionalProperties && typeof schema.additionalProperties === 'object') {
+          const validated = this.validate(current[name], schema.additionalProperties, childPath);
+          if (validated !== undefined) result[name] = validated;
+        } else {
+          result[name] = current[name];
+        }
+      });
+
+    // An unchanged object keeps its identity, like arrays
+    const keys = Object.keys(result);
+    const unchanged = keys.length === Object.keys(current).length &&
+      keys.every(key => Object.prototype.hasOwnProperty.call(current, key) && result[key] === current[key]);
+    return unchanged ? current : result;
+  }
+}
+
+/**
+ * Validate props against a block's props schema
+ */
+export function validateBlockProps(props: any, schema: PropSchema, options: { mode?: ValidationMode } = {}): ValidationResult {
+  const validator = new PropsValidator(options.mode || 'coerce');
+  const value = isPlainObject(props) || props === undefined || props === null
+    ? validator.validateObject(props || {}, schema, '')
+    : validator.validate(props, schema, '');
+
+  return { valid: validator.issues.length === 0, value, issues: validator.issues };
+}
@@ -0,0 +1,141 @@
+import { BlockLoadError, MetadataFetchError, TimeoutError } from './errors';
+import type { BlockErrorCode } from './errors';
+import { createLogger } from './logger';
+
+const logger = createLogger('retry');
+
+export interface RetryPolicy {
+  // Total attempts including the first one
+  maxAttempts: number;
+  // Delay before the first retry, in ms
+  baseDelay: number;
+  // Upper bound for any single delay, in ms
+  maxDelay: number;
+  // Growth of the delay between retries; a function receives the failed attempt number (1-based)
+  backoff: 'exponential' | 'linear' | 'constant' | ((attempt: number) => number);
+  // Fraction of each delay that is randomized (0 = none, 1 = full jitter)
+  jitter: number;
+  // Error codes worth retrying, or a predicate for full control
+  retryOn: BlockErrorCode[] | ((error: unknown, attempt: number) => boolean);
+  // Per-request timeout for metadata, registry and script loads, in ms
+  timeout?: number;
+}
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  maxAttempts: 3,
+  baseDelay: 500,
+  maxDelay: 5000,
+  backoff: 'exponential',
+  jitter: 0,
+  retryOn: ['CONTAINER_NOT_FOUND', 'SCRIPT_LOAD_FAILED', 'METADATA_FETCH_FAILED', 'REGISTRY_FETCH_FAILED', 'TIMEOUT']
+};
+
+let globalPolicy: RetryPolicy = { ...DEFAULT_RETRY_POLICY };
+
+/**
+ * Replace parts of the policy used by every loader
+ */
+export function setRetryPolicy(policy: Partial<RetryPolicy>): void {
+  globalPolicy = { ...globalPolicy, ...policy };
+}
+
+/**
+ * Get the global policy, with an optional per-instance override applied
+ */
+export function getRetryPolicy(override?: Partial<RetryPolicy>): RetryPolicy {
+  return override ? { ...globalPolicy, ...override } : globalPolicy;
+}
+
+/**
+ * Decide whether a failure should be retried under the given policy.
+ * HTTP 4xx responses (other than 408/429) are never retried by code lists:
+ * asking again won't make a missing or forbidden block appear.
+ */
+export function isRetryable(error: unknown, attempt: number, policy: RetryPolicy): boolean {
+  if (typeof policy.retryOn === 'function') {
+    return policy.retryOn(error, attempt);
+  }
+
+  if (!(error instanceof BlockLoadError) || !policy.retryOn.includes(error.code)) {
+    return false;
+  }
+
+  const status = (error as MetadataFetchError).status;
+  if (status !== undefined && status >= 400 && status < 500) {
+    return status === 408 || status === 429;
+  }
+
+  return true;
+}
+
+/**
+ * Delay before the next attempt, after `attempt` attempts have failed
+ */
+export function getRetryDelay(attempt: number, policy: RetryPolicy): number {
+  let delay: number;
+  if (typeof policy.backoff === 'function') {
+    delay = policy.backoff(attempt);
+  } else if (policy.backoff === 'linear') {
+    delay = policy.baseDelay * attempt;
+  } else if (policy.backoff === 'constant') {
+    delay = policy.baseDelay;
+  } else {
+    delay = policy.baseDelay * Math.pow(2, attempt - 1);
+  }
+
+  delay = Math.min(delay, policy.maxDelay);
+  const jitter = Math.min(Math.max(policy.jitter, 0), 1);
+  return Math.round(delay * (1 - jitter * Math.random()));
+}
+
+/**
+ * Run an operation, retrying failures according to the policy
+ */
+export async function withRetry<T>(
+  operation: (attempt: number) => Promise<T>,
+  policy: RetryPolicy,
+  context: { [key: string]: any } = {}
+): Promise<T> {
+  const maxAttempts = Math.max(1, policy.maxAttempts);
+
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await operation(attempt);
+    } catch (error) {
+      if (attempt >= maxAttempts || !isRetryable(error, attempt, policy)) {
+        throw error;
+      }
+
+      const delay = getRetryDelay(attempt, policy);
+      logger.info('Retrying after failure', { ...context, attempt, nextAttempt: attempt + 1, maxAttempts, delay, error });
+      await new Promise(resolve => setTimeout(resolve, delay));
+    }
+  }
+}
+
+/**
+ * Reject with a TimeoutError if the promise doesn't settle in time
+ */
+export function withTimeout<T>(promise: Promise<T>, timeout: number | undefined, description: string, onTimeout?: () => void): Promise<T> {
+  if (!timeout || timeout <= 0) {
+    return promise;
+  }
+
+  return new Promise<T>((resolve, reject) => {
+    const timer = setTimeout(() => {
+      onTimeout?.();
+      reject(new TimeoutError(description, timeout));
+    }, timeout);
+
+    promise.then(
+      value => {
+        clearTimeout(timer);
+        resolve(value);
+      },
+      error => {
+        clearTimeout(timer);
+        reject(error);
+      }
+    );
+  });
+}
@@ -0,0 +1,379 @@
+import type { FederationEntry, FederationModule, MountContext, MountHandle } from './federationLoader';
+import { ScriptLoadError } from './errors';
+import { createLogger } from './logger';
+import { getScriptNonce } from './scriptSecurity';
+import type { ScriptAttributes } from './scriptSecurity';
+
+const logger = createLogger('sandbox');
+
+/**
+ * Sandbox flags for block iframes. Without `allow-same-origin` the frame gets an
+ * opaque origin: no access to the host's window, DOM, cookies or storage.
+ */
+export const SANDBOX_FLAGS = 'allow-scripts';
+
+// Function props are sent as `{ __mextCallback: id }` and turned back into callables in the frame
+const CALLBACK_MARKER = '__mextCallback';
+
+/**
+ * Messages exchanged with the frame over postMessage.
+ * Host to frame: mext:mount, mext:update, mext:unmount.
+ * Frame to host: mext:ready, mext:resize, mext:callback, mext:event, mext:error, mext:load-error.
+ */
+export type SandboxMessage =
+  | { type: 'mext:mount' | 'mext:update'; props: any }
+  | { type: 'mext:unmount' }
+  | { type: 'mext:ready' }
+  | { type: 'mext:resize'; height: number }
+  | { type: 'mext:callback'; id: string; args: any[] }
+  | { type: 'mext:event'; name: string; payload?: any }
+  | { type: 'mext:error' | 'mext:load-error'; message: string; stack?: string };
+
+function isPlainObject(value: any): value is { [key: string]: any } {
+  if (!value || typeof value !== 'object') return false;
+  const prototype = Object.getPrototypeOf(value);
+  return prototype === Object.prototype || prototype === null;
+}
+
+/**
+ * Replace function props, at any depth, with callback markers. Callbacks are
+ * keyed by their path, so the frame keeps calling the latest function after updates.
+ */
+function encodeProps(value: any, callbacks: Map<string, (...args: any[]) => any>, path = 'props'): any {
+  if (typeof value === 'function') {
+    callbacks.set(path, value);
+    return { [CALLBACK_MARKER]: path };
+  }
+
+  if (Array.isArray(value)) {
+    return value.map((item, index) => encodeProps(item, callbacks, `${path}.${index}`));
+  }
+
+  if (isPlainObject(value)) {
+    const encoded: { [key: string]: any } = {};
+    Object.keys(value).forEach(key => {
+      encoded[key] = encodeProps(value[key], callbacks, `${path}.${key}`);
+    });
+    return encoded;
+  }
+
+  return value;
+}
+
+function toScriptLiteral(value: any): string {
+  return JSON.stringify(value).replace(/</g, '\\u003c');
+}
+
+/**
+ * Bootstrap that runs inside the frame: loads the federation script or module,
+ * finds the block, mounts on request and reports size, callbacks and errors back.
+ */
+function getFrameScript(entry: FederationEntry, attributes: ScriptAttributes, nonce?: string): string {
+  const scriptAttributes = {
+    integrity: attributes.integrity,
+    crossOrigin: attributes.crossOrigin || (attributes.integrity ? 'anonymous' : undefined),
+    nonce
+  };
+
+  return `(function () {
+  var entry = ${toScriptLiteral(entry)};
+  var scriptUrl = entry.url;
+  var containerNames = entry.containerNames;
+  var exposedModule = entry.exposedModule;
+  var scriptAttributes = ${toScriptLiteral(scriptAttributes)};
+  var host = window.parent;
+  var root = document.getElementById('root');
+  var module = null;
+  var handle = null;
+  var pendingProps = null;
+
+  function post(message) {
+    try {
+      host.postMessage(message, '*');
+    } catch (error) {
+      // Arguments that can't be cloned (events, DOM nodes) are sent as JSON
+      host.postMessage(JSON.parse(JSON.stringify(message)), '*');
+    }
+  }
+
+  function reportError(error) {
+    post({ type: 'mext:error', message: String((error && error.message) || error), stack: error && error.stack });
+  }
+
+  function decode(value) {
+    if (value && typeof value === 'object') {
+      if (typeof value.${CALLBACK_MARKER} === 'string') {
+        var id = value.${CALLBACK_MARKER};
+        return function () {
+          post({ type: 'mext:callback', id: id, args: Array.prototype.slice.call(arguments) });
+        };
+      }
+      if (Array.isArray(value)) return value.map(decode);
+      var decoded = {};
+      for (var key in value) decoded[key] = decode(value[key]);
+      return decoded;
+    }
+    return value;
+  }
+
+  function emit(name, payload) {
+    post({ type: 'mext:event', name: String(name), payload: payload });
+  }
+
+  function normalize(result) {
+    if (typeof result === 'function') return { unmount: result };
+    if (result && typeof result === 'object') return result;
+    return { unmount: function () {} };
+  }
+
+  function mount(props) {
+    var mountFunction = module.mount || (module.default && module.default.mount);
+    try {
+      root.innerHTML = '';
+      handle = normalize(mountFunction(root, decode(props), { isolation: 'iframe', styleRoot: document, reportError: reportError, emit: emit }));
+    } catch (error) {
+      reportError(error);
+    }
+  }
+
+  function unmount() {
+    if (!handle) return;
+    var current = handle;
+    handle = null;
+    try {
+      if (current.unmount) current.unmount();
+    } catch (error) {
+      reportError(error);
+    }
+    root.innerHTML = '';
+  }
+
+  function update(props) {
+    if (!handle) return mount(props);
+    if (typeof handle.update !== 'function') {
+      unmount();
+      return mount(props);
+    }
+    try {
+      handle.update(decode(props));
+    } catch (error) {
+      reportError(error);
+    }
+  }
+
+  function hasMount(candidate) {
+    var mountFunction = candidate && (candidate.mount || (candidate.default && candidate.default.mount));
+    return typeof mountFunction === 'function';
+  }
+
+  function fromContainer(container) {
+    return Promise.resolve(container.init ? container.init({}) : null).then(function () {
+      return container.get(exposedModule);
+    }).then(function (factory) {
+      return factory();
+    });
+  }
+
+  function findModule(index) {
+    if (index >= containerNames.length) {
+      return Promise.reject(new Error('Federation container not found. Tried: ' + containerNames.join(', ')));
+    }
+    var container = window[containerNames[index]];
+    if (!container || !container.get) return findModule(index + 1);
+    return fromContainer(container).then(function (candidate) {
+      return hasMount(candidate) ? candidate : findModule(index + 1);
+    }, function () {
+      return findModule(index + 1);
+    });
+  }
+
+  window.addEventListener('message', function (event) {
+    if (event.source !== host || !event.data) return;
+    var message = event.data;
+    if (message.type === 'mext:mount' || message.type === 'mext:update') {
+      if (module) update(message.props);
+      else pendingProps = message.props;
+    } else if (message.type === 'mext:unmount') {
+      unmount();
+    }
+  });
+
+  window.addEventListener('error', function (event) {
+    reportError(event.error || event.message);
+  });
+  window.addEventListener('unhandledrejection', function (event) {
+    reportError(event.reason);
+  });
+
+  var lastHeight = -1;
+  function reportSize() {
+    var height = Math.ceil(root.getBoundingClientRect().height);
+    if (height !== lastHeight) {
+      lastHeight = height;
+      post({ type: 'mext:resize', height: height });
+    }
+  }
+  if (typeof ResizeObserver !== 'undefined') {
+    new ResizeObserver(reportSize).observe(root);
+  } else {
+    setInterval(reportSize, 250);
+  }
+
+  function ready(found) {
+    module = found;
+    post({ type: 'mext:ready' });
+    if (pendingProps) {
+      mount(pendingProps);
+      pendingProps = null;
+    }
+  }
+
+  function failed(error) {
+    post({ type: 'mext:load-error', message: String((error && error.message) || error) });
+  }
+
+  if (entry.type === 'module') {
+    import(scriptUrl).then(function (namespace) {
+      if (entry.kind !== 'container') return namespace;
+      if (!namespace || typeof namespace.get !== 'function') throw new Error('Module does not export a federation container: ' + scriptUrl);
+      return fromContainer(namespace);
+    }).then(function (found) {
+      if (!hasMount(found)) throw new Error('Module does not export a mount function: ' + scriptUrl);
+      ready(found);
+    }, failed);
+    return;
+  }
+
+  var script = document.createElement('script');
+  script.src = scriptUrl;
+  if (scriptAttributes.integrity) script.integrity = scriptAttributes.integrity;
+  if (scriptAttributes.crossOrigin) script.crossOrigin = scriptAttributes.crossOrigin;
+  if (scriptAttributes.nonce) script.nonce = scriptAttributes.nonce;
+  script.onload = function () {
+    findModule(0).then(ready, failed);
+  };
+  script.onerror = function () {
+    post({ type: 'mext:load-error', message: 'Failed to load script: ' + scriptUrl });
+  };
+  document.head.appendChild(script);
+})();`;
+}
+
+/**
+ * Full document loaded into the frame through `srcdoc`. A srcdoc frame inherits
+ * the page's CSP, so the configured nonce goes on both of its scripts.
+ */
+export function getFrameDocument(entry: FederationEntry, attributes: ScriptAttributes = {}): string {
+  const nonce = getScriptNonce();
+  const nonceAttribute = nonce ? ` nonce="${nonce.replace(/"/g, '&quot;')}"` : '';
+  return `<!DOCTYPE html><html><head><meta charset="utf-8">`
+    + `<style${nonceAttribute}>html,body{margin:0;padding:0;background:transparent}#root{display:flow-root}</style>`
+    + `</head><body><div id="root"></div>`
+    + `<script${nonceAttribute}>${getFrameScript(entry, attributes, nonce)}</script></body></html>`;
+}
+
+/**
+ * Build a module whose mount renders the block in a sandboxed iframe. The block's
+ * script only ever runs inside the frame; props, prop updates, callback calls,
+ * size changes and errors cross over postMessage. Callback arguments must be
+ * cloneable, and callbacks can't return values to the block.
+ */
+export function createSandboxedModule(
+  blockId: string,
+  entry: FederationEntry,
+  attributes: ScriptAttributes = {}
+): FederationModule {
+  const scriptUrl = entry.url;
+  const mount = (container: HTMLElement, props?: any, context?: MountContext): MountHandle => {
+    const iframe = document.createElement('iframe');
+    iframe.setAttribute('sandbox', SANDBOX_FLAGS);
+    iframe.setAttribute('title', `Block ${blockId}`);
+    iframe.className = 'mext-sandbox-frame';
+    iframe.style.width = '100%';
+    iframe.style.height = '0';
+    iframe.style.border = '0';
+    iframe.style.display = 'block';
+    iframe.srcdoc = getFrameDocument(entry, attributes);
+
+    const callbacks = new Map<string, (...args: any[]) => any>();
+    let latestProps = props;
+    let ready = false;
+
+    const send = (message: SandboxMessage) => iframe.contentWindow?.postMessage(message, '*');
+    const sendProps = (type: 'mext:mount' | 'mext:update', nextProps: any) => {
+      callbacks.clear();
+      try {
+        send({ type, props: encodeProps(nextProps ?? {}, callbacks) });
+      } catch (cause: any) {
+        // postMessage throws a DataCloneError for values it can't copy into the frame
+        const error = new Error(
+          `Props of sandboxed block ${blockId} can't be sent to its frame: ${cause?.message || cause}. ` +
+          'Sandboxed blocks only receive cloneable props (no React elements, DOM nodes or class instances).'
+        );
+        logger.error('Failed to send props to sandboxed block', { blockId, error: cause });
+        context?.reportError?.(error);
+      }
+    };
+
+    // Only the frame we created may talk to us; its origin is opaque ('null')
+    const handleMessage = (event: MessageEvent) => {
+      if (event.source !== iframe.contentWindow) return;
+      const message = event.data as SandboxMessage;
+      if (!message || typeof message.type !== 'string') return;
+
+      switch (message.type) {
+        case 'mext:ready':
+          ready = true;
+          sendProps('mext:mount', latestProps);
+          break;
+        case 'mext:resize':
+          iframe.style.height = `${Math.max(0, Number(message.height) || 0)}px`;
+          break;
+        case 'mext:callback': {
+          const callback = callbacks.get(message.id);
+          if (!callback) {
+            logger.warn('Sandboxed block called an unknown callback', { blockId, id: message.id });
+            break;
+          }
+          try {
+            callback(...(Array.isArray(message.args) ? message.args : []));
+          } catch (error) {
+            logger.error('Callback invoked by sandboxed block failed', { blockId, id: message.id, error });
+          }
+          break;
+        }
+        case 'mext:event':
+          context?.emit?.(message.name, message.payload);
+          break;
+        case 'mext:load-error':
+          logger.error('Sandboxed block failed to load', { blockId, message: message.message });
+          context?.reportError?.(new ScriptLoadError(scriptUrl, { blockId, cause: message.message }));
+          break;
+        case 'mext:error': {
+          const error = new Error(message.message);
+          if (message.stack) error.stack = message.stack;
+          logger.error('Sandboxed block reported an error', { blockId, error });
+          context?.reportError?.(error);
+          break;
+        }
+      }
+    };
+
+    window.addEventListener('message', handleMessage);
+    container.appendChild(iframe);
+
+    return {
+      update: (nextProps: any) => {
+        latestProps = nextProps;
+        if (ready) sendProps('mext:update', nextProps);
+      },
+      unmount: () => {
+        window.removeEventListener('message', handleMessage);
+        send({ type: 'mext:unmount' });
+        iframe.remove();
+      }
+    };
+  };
+
+  return { mount };
+}
@@ -0,0 +1,97 @@
+import { ScriptOriginNotAllowedError } from './errors';
+import { isBrowser } from './environment';
+
+/**
+ * Attributes applied to an injected federation script (or its preload link)
+ */
+export interface ScriptAttributes {
+  // Subresource integrity hash, e.g. 'sha384-...'
+  integrity?: string;
+  // Defaults to 'anonymous' when an integrity hash is set, since SRI needs a CORS load
+  crossOrigin?: 'anonymous' | 'use-credentials';
+}
+
+let allowedScriptOrigins: string[] | undefined;
+let scriptNonce: string | (() => string | undefined) | undefined;
+
+/**
+ * Restrict which origins federation scripts may load from. Entries are origins
+ * ('https://cdn.example.com'), subdomain wildcards ('https://*.example.com') or '*'.
+ * Call without arguments to allow every origin again.
+ */
+export function setAllowedScriptOrigins(origins?: string[]): void {
+  allowedScriptOrigins = origins;
+}
+
+export function getAllowedScriptOrigins(): string[] | undefined {
+  return allowedScriptOrigins;
+}
+
+/**
+ * CSP nonce put on every script the loader injects; a function is read on each injection
+ */
+export function setScriptNonce(nonce?: string | (() => string | undefined)): void {
+  scriptNonce = nonce;
+}
+
+export function getScriptNonce(): string | undefined {
+  return typeof scriptNonce === 'function' ? scriptNonce() : scriptNonce;
+}
+
+function matchesOrigin(url: URL, pattern: string): boolean {
+  if (pattern === '*') return true;
+
+  const wildcard = /^([a-z][a-z0-9+.-]*:)\/\/\*\.(.+)$/i.exec(pattern);
+  if (wildcard) {
+    return url.protocol === wildcard[1].toLowerCase() && url.host.endsWith(`.${wildcard[2].toLowerCase()}`);
+  }
+
+  try {
+    return new URL(pattern).origin === url.origin;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Whether a script URL may be loaded under the allow-list. Origins in `implicitOrigins`
+ * (the configured server) are always allowed; everything is allowed when no list is set.
+ */
+export function isScriptOriginAllowed(url: string, implicitOrigins: string[] = []): boolean {
+  if (!allowedScriptOrigins) return true;
+
+  let parsed: URL;
+  try {
+    parsed = new URL(url, isBrowser() ? window.location.href : undefined);
+  } catch {
+    return false;
+  }
+
+  return [...implicitOrigins, ...allowedScriptOrigins].some(pattern => matchesOrigin(parsed, pattern));
+}
+
+/**
+ * Throw a ScriptOriginNotAllowedError unless the URL's origin is allowed
+ */
+export function assertScriptOriginAllowed(url: string, options: { blockId?: string; implicitOrigins?: string[] } = {}): void {
+  if (!isScriptOriginAllowed(url, options.implicitOrigins)) {
+    throw new ScriptOriginNotAllowedError(url, { blockId: options.blockId });
+  }
+}
+
+/**
+ * Put integrity, crossorigin and the CSP nonce on a script or link element
+ */
+export function applyScriptAttributes(element: HTMLScriptElement | HTMLLinkElement, attributes: ScriptAttributes = {}): void {
+  if (attributes.integrity) {
+    element.integrity = attributes.integrity;
+    element.crossOrigin = attributes.crossOrigin || 'anonymous';
+  } else if (attributes.crossOrigin) {
+    element.crossOrigin = attributes.crossOrigin;
+  }
+
+  const nonce = getScriptNonce();
+  if (nonce) {
+    element.nonce = nonce;
+  }
+}
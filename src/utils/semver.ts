@@ -0,0 +1,195 @@
+/**
+ * Minimal semver helpers for resolving block version pins and ranges.
+ * Supports exact versions, x-ranges (`1.x`, `1.2`, `*`), caret (`^1.2.0`),
+ * tilde (`~1.2.0`), comparators (`>=1.0.0 <2.0.0`) and `||` unions.
+ */
+
+export interface SemVer {
+  major: number;
+  minor: number;
+  patch: number;
+  prerelease: string[];
+}
+
+interface Comparator {
+  operator: '>' | '>=' | '<' | '<=' | '=';
+  version: SemVer;
+}
+
+const VERSION_PATTERN = /^v?(\d+)\.(\d+)\.(\d+)(?:-([0-9A-Za-z.-]+))?(?:\+[0-9A-Za-z.-]+)?$/;
+const PARTIAL_PATTERN = /^v?(\d+|[xX*])(?:\.(\d+|[xX*]))?(?:\.(\d+|[xX*]))?(?:-([0-9A-Za-z.-]+))?$/;
+
+/**
+ * Parse a full `major.minor.patch[-prerelease]` version, or null if invalid
+ */
+export function parseVersion(version: string): SemVer | null {
+  const match = VERSION_PATTERN.exec(version.trim());
+  if (!match) return null;
+
+  return {
+    major: Number(match[1]),
+    minor: Number(match[2]),
+    patch: Number(match[3]),
+    prerelease: match[4] ? match[4].split('.') : []
+  };
+}
+
+/**
+ * True when the string pins one exact version rather than a range
+ */
+export function isExactVersion(version: string): boolean {
+  return parseVersion(version.replace(/^=/, '')) !== null;
+}
+
+function comparePrerelease(a: string[], b: string[]): number {
+  if (a.length === 0 && b.length === 0) return 0;
+  if (a.length === 0) return 1;
+  if (b.length === 0) return -1;
+
+  for (let i = 0; i < Math.max(a.length, b.length); i++) {
+    if (a[i] === undefined) return -1;
+    if (b[i] === undefined) return 1;
+    if (a[i] === b[i]) continue;
+
+    const aNum = /^\d+$/.test(a[i]);
+    const bNum = /^\d+$/.test(b[i]);
+    if (aNum && bNum) return Number(a[i]) - Number(b[i]);
+    if (aNum) return -1;
+    if (bNum) return 1;
+    return a[i] < b[i] ? -1 : 1;
+  }
+
+  return 0;
+}
+
+/**
+ * Compare two parsed versions: negative if a < b, positive if a > b
+ */
+export function compareVersions(a: SemVer, b: SemVer): number {
+  return (a.major - b.major)
+    || (a.minor - b.minor)
+    || (a.patch - b.patch)
+    || comparePrerelease(a.prerelease, b.prerelease);
+}
+
+function version(major: number, minor: number, patch: number, prerelease: string[] = []): SemVer {
+  return { major, minor, patch, prerelease };
+}
+
+function parsePart(part: string | undefined): number | null {
+  return part === undefined || /^[xX*]$/.test(part) ? null : Number(part);
+}
+
+/**
+ * Expand one range token (e.g. `^1.2.0`, `1.x`, `>=2.0.0`) into comparators
+ */
+function parseComparators(token: string): Comparator[] | null {
+  if (token === '' || token === '*' || token === 'latest' || /^[xX]$/.test(token)) {
+    return [];
+  }
+
+  const operatorMatch = /^(\^|~|>=|<=|>|<|=)?(.*)$/.exec(token)!;
+  const operator = operatorMatch[1] || '';
+  const partial = PARTIAL_PATTERN.exec(operatorMatch[2]);
+  if (!partial) return null;
+
+  const major = parsePart(partial[1]);
+  const minor = parsePart(partial[2]);
+  const patch = parsePart(partial[3]);
+  const prerelease = partial[4] ? partial[4].split('.') : [];
+
+  if (major === null) return [];
+
+  const lower = version(major, minor ?? 0, patch ?? 0, prerelease);
+
+  switch (operator) {
+    case '^': {
+      let upper: SemVer;
+      if (major > 0 || minor === null) {
+        upper = version(major + 1, 0, 0);
+      } else if (minor > 0 || patch === null) {
+        upper = version(0, minor + 1, 0);
+      } else {
+        upper = version(0, 0, patch + 1);
+      }
+      return [{ operator: '>=', version: lower }, { operator: '<', version: upper }];
+    }
+    case '~': {
+      const upper = minor === null ? version(major + 1, 0, 0) : version(major, minor + 1, 0);
+      return [{ operator: '>=', version: lower }, { operator: '<', version: upper }];
+    }
+    case '>':
+    case '>=':
+    case '<':
+    case '<=':
+      return [{ operator, version: lower }];
+    default: {
+      // Exact version, or an x-range when parts are missing
+      if (minor === null) {
+        return [{ operator: '>=', version: lower }, { operator: '<', version: version(major + 1, 0, 0) }];
+      }
+      if (patch === null) {
+        return [{ operator: '>=', version: lower }, { operator: '<', version: version(major, minor + 1, 0) }];
+      }
+      return [{ operator: '=', version: lower }];
+    }
+  }
+}
+
+function testComparator(candidate: SemVer, comparator: Comparator): boolean {
+  const result = compareVersions(candidate, comparator.version);
+  switch (comparator.operator) {
+    case '>': return result > 0;
+    case '>=': return result >= 0;
+    case '<': return result < 0;
+    case '<=': return result <= 0;
+    case '=': return result === 0;
+  }
+}
+
+/**
+ * Check whether a version satisfies a range. Prerelease versions only match
+ * comparators that themselves name a prerelease of the same major.minor.patch.
+ */
+export function satisfies(candidate: string, range: string): boolean {
+  const parsed = parseVersion(candidate);
+  if (!parsed) return false;
+
+  return range.split('||').some(set => {
+    const tokens = set.trim().split(/\s+/).filter(Boolean);
+    const comparators: Comparator[] = [];
+
+    for (const token of tokens) {
+      const expanded = parseComparators(token);
+      if (!expanded) return false;
+      comparators.push(...expanded);
+    }
+
+    if (!comparators.every(comparator => testComparator(parsed, comparator))) {
+      return false;
+    }
+
+    if (parsed.prerelease.length === 0) return true;
+
+    return comparators.some(({ version: v }) =>
+      v.prerelease.length > 0 && v.major === parsed.major && v.minor === parsed.minor && v.patch === parsed.patch
+    );
+  });
+}
+
+/**
+ * Highest version from the list that satisfies the range, or null
+ */
+export function maxSatisfying(versions: string[], range: string): string | null {
+  let best: { raw: string; parsed: SemVer } | null = null;
+
+  for (const raw of versions) {
+    const parsed = parseVersion(raw);
+    if (!parsed || !satisfies(raw, range)) continue;
+    if (!best || compareVersions(parsed, best.parsed) > 0) {
+      best = { raw, parsed };
+    }
+  }
+
+  return best ? best.raw : null;
+}
@@ -0,0 +1,177 @@
+import * as React from 'react';
+import * as ReactDOM from 'react-dom';
+import * as ReactDOMClient from 'react-dom/client';
+import * as ReactJSXRuntime from 'react/jsx-runtime';
+import { satisfies } from './semver';
+import { createLogger } from './logger';
+
+const logger = createLogger('shareScope');
+
+// Present when the host app is itself built with webpack Module Federation
+declare const __webpack_init_sharing__: ((scope: string) => Promise<void>) | undefined;
+declare const __webpack_share_scopes__: { [scope: string]: ShareScope } | undefined;
+
+/**
+ * A library the host offers to blocks instead of their bundled copy
+ */
+export interface SharedModule {
+  version: string;
+  // Returns the module (or a promise of it) when a block first uses it
+  get: () => any;
+  // Offered as already loaded, so singleton consumers settle on this copy. When `get`
+  // then returns the module itself, it's also offered for eager consumption.
+  loaded?: boolean;
+}
+
+/**
+ * Webpack's share scope: package name -> version -> provider
+ */
+export interface ShareScope {
+  [name: string]: {
+    [version: string]: {
+      // Eager providers return the factory itself, others a promise of it
+      get: () => (() => any) | Promise<() => any>;
+      from: string;
+      eager?: boolean;
+      loaded?: 1;
+    };
+  };
+}
+
+const SHARE_SCOPE_FROM = '@mexty/block';
+
+function hostReactModules(): { [name: string]: SharedModule } {
+  const reactVersion = React.version;
+  const reactDomVersion = ReactDOM.version || reactVersion;
+  return {
+    react: { version: reactVersion, get: () => React, loaded: true },
+    'react/jsx-runtime': { version: reactVersion, get: () => ReactJSXRuntime, loaded: true },
+    'react-dom': { version: reactDomVersion, get: () => ReactDOM, loaded: true },
+    'react-dom/client': { version: reactDomVersion, get: () => ReactDOMClient, loaded: true }
+  };
+}
+
+let sharedModules: { [name: string]: SharedModule } = hostReactModules();
+let shareScope: Promise<ShareScope> | null = null;
+// Each container's initialization, shared by everyone loading it at the same time
+const containerInits = new WeakMap<object, Promise<void>>();
+
+/**
+ * Add libraries to the share scope, or remove them with `false` (including the
+ * host's react, react/jsx-runtime, react-dom and react-dom/client, shared by default).
+ * Only containers initialized afterwards see the change.
+ */
+export function setSharedModules(modules: { [name: string]: SharedModule | false }): void {
+  const next = { ...sharedModules };
+  Object.keys(modules).forEach(name => {
+    const module = modules[name];
+    if (module === false) {
+      delete next[name];
+    } else {
+      next[name] = module;
+    }
+  });
+  sharedModules = next;
+  shareScope = null;
+}
+
+export function getSharedModules(): { [name: string]: SharedModule } {
+  return { ...sharedModules };
+}
+
+function isThenable(value: any): boolean {
+  return !!value && typeof value.then === 'function';
+}
+
+async function buildShareScope(): Promise<ShareScope> {
+  // A webpack host already has a scope with its own shared modules; join it instead of starting another
+  let scope: ShareScope = {};
+  if (typeof __webpack_init_sharing__ === 'function' && typeof __webpack_share_scopes__ === 'object' && __webpack_share_scopes__) {
+    try {
+      await __webpack_init_sharing__('default');
+      scope = __webpack_share_scopes__.default || scope;
+    } catch (error) {
+      logger.warn('Could not initialize the host share scope', { error });
+    }
+  }
+
+  Object.keys(sharedModules).forEach(name => {
+    const module = sharedModules[name];
+    const versions = scope[name] || (scope[name] = {});
+    // Keep a version the host build already provides; containers pick among versions themselves
+    if (versions[module.version]) return;
+
+    // Eager consumers need the factory synchronously, so only a loaded module that
+    // isn't behind a promise is offered to them
+    const value = module.loaded ? module.get() : undefined;
+    const eager = module.loaded === true && !isThenable(value);
+    versions[module.version] = {
+      get: eager ? () => () => value : () => Promise.resolve(module.loaded ? value : module.get()).then(loaded => () => loaded),
+      from: SHARE_SCOPE_FROM,
+      ...(eager ? { eager: true } : {}),
+      ...(module.loaded ? { loaded: 1 as const } : {})
+    };
+  });
+
+  logger.debug('Share scope ready', { shared: Object.keys(scope).map(name => `${name}@${Object.keys(scope[name]).join('|')}`) });
+  return scope;
+}
+
+/**
+ * The share scope handed to every container. Containers add their own fallback
+ * versions to it and negotiate: singletons settle on the loaded (host) copy,
+ * others take the highest version that satisfies their required range.
+ */
+export function getShareScope(): Promise<ShareScope> {
+  if (!shareScope) {
+    shareScope = buildShareScope();
+  }
+  return shareScope;
+}
+
+/**
+ * Initialize a federation container with the share scope, once per container.
+ * Callers arriving while it runs wait for the same initialization.
+ * Containers built without `init` (or already initialized elsewhere) are used as they are.
+ */
+export function initContainer(container: any, blockId: string, containerName: string): Promise<void> {
+  if (!container || typeof container.init !== 'function') {
+    return Promise.resolve();
+  }
+
+  let init = containerInits.get(container);
+  if (!init) {
+    init = getShareScope()
+      .then(scope => container.init(scope))
+      .then(
+        () => logger.debug('Initialized federation container', { blockId, containerName }),
+        error => logger.warn('Federation container initialization failed, the block uses its bundled dependencies', { blockId, containerName, error })
+      );
+    containerInits.set(container, init);
+  }
+  return init;
+}
+
+/**
+ * Warn about shared libraries whose host version a block wasn't built for.
+ * `required` maps package names to semver ranges, as in webpack's `requiredVersion`.
+ */
+export function checkSharedRequirements(blockId: string, required?: { [name: string]: string }): string[] {
+  if (!required) return [];
+
+  const mismatched = Object.keys(required).filter(name => {
+    const module = sharedModules[name];
+    return module && !satisfies(module.version, required[name]);
+  });
+
+  mismatched.forEach(name => {
+    logger.warn('Shared library version does not satisfy the block', {
+      blockId,
+      name,
+      hostVersion: sharedModules[name].version,
+      requiredVersion: required[name]
+    });
+  });
+
+  return mismatched;
+}
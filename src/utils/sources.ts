@@ -0,0 +1,92 @@
+import { createLogger } from './logger';
+import type { AuthToken } from './auth';
+
+const logger = createLogger('sources');
+
+/**
+ * A block server the registry and loader read from, next to `serverUrl`
+ */
+export interface BlockSource {
+  // Recorded on registry entries; 'default' names the serverUrl source
+  name: string;
+  url: string;
+  // Higher wins when two sources list the same component; ties go to the earlier source,
+  // with the serverUrl source first. Defaults to 0.
+  priority?: number;
+  // Sent with every registry and metadata request to this source
+  headers?: { [name: string]: string };
+  // Bearer token or token provider for this source, instead of the global `authToken`
+  authToken?: AuthToken;
+  // Also send the global `authToken` to this source. Only the 'default' source gets it otherwise.
+  useGlobalToken?: boolean;
+}
+
+export const DEFAULT_SOURCE = 'default';
+
+let configuredSources: BlockSource[] = [];
+// The source whose registry lists each block ID; loads that name no source use it
+const blockSources = new Map<string, string>();
+
+function normalizeUrl(url: string): string {
+  return url.replace(/\/+$/, '');
+}
+
+/**
+ * Set the sources read alongside `serverUrl`. A source named 'default' replaces
+ * the serverUrl source. Sources without a name or URL, or with a name already
+ * used, are skipped.
+ */
+export function setBlockSources(sources: BlockSource[]): void {
+  const names = new Set<string>();
+  configuredSources = sources.filter(source => {
+    if (!source.name || !source.url || names.has(source.name)) {
+      logger.warn('Skipping block source without a unique name and a URL', { name: source.name, url: source.url });
+      return false;
+    }
+    names.add(source.name);
+    return true;
+  }).map(source => ({ ...source, url: normalizeUrl(source.url) }));
+}
+
+/**
+ * Every source, highest precedence first. `serverUrl` is the 'default' source
+ * unless one by that name is configured.
+ */
+export function getBlockSources(serverUrl: string): BlockSource[] {
+  const sources = configuredSources.some(source => source.name === DEFAULT_SOURCE)
+    ? configuredSources
+    : [{ name: DEFAULT_SOURCE, url: normalizeUrl(serverUrl) }, ...configuredSources];
+
+  return sources
+    .map((source, index) => ({ source, index }))
+    .sort((a, b) => (b.source.priority ?? 0) - (a.source.priority ?? 0) || a.index - b.index)
+    .map(({ source }) => source);
+}
+
+/**
+ * The source a block is fetched from: the named one, otherwise the one whose
+ * registry lists the block, otherwise the 'default' source
+ */
+export function getSourceForBlock(blockId: string, serverUrl: string, source?: string): BlockSource {
+  const sources = getBlockSources(serverUrl);
+  if (source) {
+    const named = sources.find(candidate => candidate.name === source);
+    if (named) return named;
+    logger.warn('Requested block source is not configured, using the default', { blockId, source });
+  }
+
+  const name = blockSources.get(blockId);
+  const recorded = name ? sources.find(source => source.name === name) : undefined;
+  if (name && !recorded) {
+    logger.warn('Block is recorded under a source that is no longer configured', { blockId, source: name });
+  }
+  return recorded || sources.find(source => source.name === DEFAULT_SOURCE) as BlockSource;
+}
+
+/**
+ * Note which source's registry lists a block. Called by the registry; a source
+ * passed to a loader call only applies to that call.
+ */
+export function recordBlockSource(blockId: string, source: string): void {
+  blockSources.set(blockId, source);
+}
@@ -0,0 +1,172 @@
+import { federationLoader } from './federationLoader';
+import type { BlockMetadata } from './federationLoader';
+import { blockRegistry } from './blockRegistry';
+import type { ResolvedBlock } from './blockRegistry';
+import { BlockNotInRegistryError, ServerRenderError } from './errors';
+import { createLogger } from './logger';
+
+const logger = createLogger('ssr');
+
+/**
+ * Global the serialized state is assigned to by `getBlockStateScript`
+ */
+export const BLOCK_STATE_GLOBAL = '__MEXT_BLOCK_STATE__';
+
+/**
+ * A block to prepare on the server, by block ID or registry component name
+ */
+export interface SSRBlockRequest {
+  blockId?: string;
+  componentName?: string;
+  version?: string;
+  // Named source to fetch the block from, see BlockProps
+  source?: string;
+  props?: any;
+}
+
+/**
+ * Everything the client needs to hydrate server-rendered blocks without refetching
+ */
+export interface BlockSSRState {
+  // Metadata keyed by `blockId` or `blockId@version`, prefixed with `source:` when the source was named
+  metadata: { [cacheKey: string]: BlockMetadata };
+  // Server-rendered HTML keyed by render key (see getRenderKey)
+  html: { [renderKey: string]: string };
+  // Registry lookups keyed by `componentName` or `componentName@version`
+  resolved: { [componentKey: string]: ResolvedBlock };
+}
+
+/**
+ * JSON.stringify with sorted keys, skipping functions, so equal props give equal keys
+ */
+function stableStringify(value: any): string {
+  if (value === null || typeof value !== 'object') {
+    return typeof value === 'function' || value === undefined ? 'null' : JSON.stringify(value);
+  }
+
+  if (Array.isArray(value)) {
+    return `[${value.map(stableStringify).join(',')}]`;
+  }
+
+  const entries = Object.keys(value)
+    .filter(key => value[key] !== undefined && typeof value[key] !== 'function')
+    .sort()
+    .map(key => `${JSON.stringify(key)}:${stableStringify(value[key])}`);
+  return `{${entries.join(',')}}`;
+}
+
+/**
+ * Key that ties server-rendered HTML to the Block that should hydrate it
+ */
+export function getRenderKey(blockId: string, version: string | undefined, props: any): string {
+  return `${blockId}@${version || ''}:${stableStringify(props ?? {})}`;
+}
+
+/**
+ * Key for a registry lookup of a component name
+ */
+export function getComponentKey(componentName: string, version?: string): string {
+  return version ? `${componentName}@${version}` : componentName;
+}
+
+/**
+ * Create an empty state to fill with preloadBlocksForSSR
+ */
+export function createBlockSSRState(): BlockSSRState {
+  return { metadata: {}, html: {}, resolved: {} };
+}
+
+/**
+ * Server side: fetch metadata for each block and, when the block ships a server
+ * bundle, render its HTML. Failures are logged and leave that block to render on
+ * the client, so one broken block doesn't fail the whole page.
+ */
+export async function preloadBlocksForSSR(
+  requests: SSRBlockRequest[],
+  state: BlockSSRState = createBlockSSRState()
+): Promise<BlockSSRState> {
+  await Promise.all(requests.map(async request => {
+    try {
+      let blockId = request.blockId;
+      let version = request.version;
+      let source = request.source;
+
+      if (!blockId && request.componentName) {
+        const resolved = await blockRegistry.resolveBlock(request.componentName, request.version);
+        if (!resolved) {
+          throw new BlockNotInRegistryError(request.componentName);
+        }
+        state.resolved[getComponentKey(request.componentName, request.version)] = resolved;
+        blockId = resolved.blockId;
+        version = resolved.version;
+        source = resolved.source;
+      }
+
+      if (!blockId) {
+        logger.warn('SSR request needs a blockId or componentName', { request });
+        return;
+      }
+
+      const exactVersion = version ? await federationLoader.resolveVersion(blockId, version, { source }) : undefined;
+      const metadata = await federationLoader.getBlockMetadata(blockId, { version: exactVersion, source });
+      const metadataKey = exactVersion ? `${blockId}@${exactVersion}` : blockId;
+      state.metadata[source ? `${source}:${metadataKey}` : metadataKey] = metadata;
+
+      const module = await federationLoader.loadServerModule(blockId, { version: exactVersion, source });
+      const render = module?.render || module?.default?.render;
+      if (!render) return;
+
+      try {
+        state.html[getRenderKey(blockId, version, request.props)] = await render(request.props);
+      } catch (error: any) {
+        throw new ServerRenderError(blockId, error.message, { cause: error });
+      }
+    } catch (error) {
+      logger.error('Failed to preload block for SSR', { request, error });
+    }
+  }));
+
+  return state;
+}
+
+/**
+ * Serialize state for embedding in a `<script>` tag (escapes `<` and line separators)
+ */
+export function serializeBlockState(state: BlockSSRState): string {
+  return JSON.stringify(state)
+    .replace(/</g, '\\u003c')
+    .replace(/\u2028/g, '\\u2028')
+    .replace(/\u2029/g, '\\u2029');
+}
+
+/**
+ * Inline script that exposes the state to the client as `window.__MEXT_BLOCK_STATE__`
+ */
+export function getBlockStateScript(state: BlockSSRState, nonce?: string): string {
+  const nonceAttribute = nonce ? ` nonce="${nonce.replace(/"/g, '&quot;')}"` : '';
+  return `<script${nonceAttribute}>window.${BLOCK_STATE_GLOBAL}=${serializeBlockState(state)};</script>`;
+}
+
+/**
+ * Client side: read the state written by getBlockStateScript, if any
+ */
+export function readBlockState(): BlockSSRState | undefined {
+  return typeof window !== 'undefined' ? (window as any)[BLOCK_STATE_GLOBAL] : undefined;
+}
+
+/**
+ * Seed the loader with server-fetched metadata so hydration doesn't refetch it
+ */
+export function hydrateBlockState(state: BlockSSRState): void {
+  Object.entries(state.metadata || {}).forEach(([cacheKey, metadata]) => {
+    const sourceSeparator = cacheKey.lastIndexOf(':');
+    const source = sourceSeparator === -1 ? undefined : cacheKey.slice(0, sourceSeparator);
+    const blockKey = cacheKey.slice(sourceSeparator + 1);
+    const separator = blockKey.indexOf('@');
+    if (separator === -1) {
+      federationLoader.primeMetadata(blockKey, metadata, undefined, source);
+    } else {
+      federationLoader.primeMetadata(blockKey.slice(0, separator), metadata, blockKey.slice(separator + 1), source);
+    }
+  });
+}
@@ -0,0 +1,100 @@
+import { isBrowser } from './environment';
+
+function isStylesheetNode(node: Node): node is HTMLStyleElement | HTMLLinkElement {
+  if (node instanceof HTMLStyleElement) return true;
+  return node instanceof HTMLLinkElement && node.relList.contains('stylesheet');
+}
+
+/**
+ * Start recording `<style>` and `<link rel="stylesheet">` elements added to
+ * document.head. The returned function stops recording and returns them.
+ * Blocks loading at the same moment can't be told apart, so a style injected
+ * by one may be attributed to the other.
+ */
+export function startStyleCapture(): () => HTMLElement[] {
+  if (!isBrowser() || typeof MutationObserver === 'undefined') {
+    return () => [];
+  }
+
+  const captured: HTMLElement[] = [];
+  const collect = (records: MutationRecord[]) => {
+    records.forEach(record => record.addedNodes.forEach(node => {
+      if (isStylesheetNode(node)) captured.push(node);
+    }));
+  };
+
+  const observer = new MutationObserver(collect);
+  observer.observe(document.head, { childList: true });
+
+  return () => {
+    collect(observer.takeRecords());
+    observer.disconnect();
+    return captured;
+  };
+}
+
+// Instances mounted without isolation that currently need each stylesheet in document.head
+const documentStyleHolders = new WeakMap<HTMLElement, number>();
+// Stylesheets a shadow-isolated instance wants out of document.head
+const isolatedStyles = new WeakSet<HTMLElement>();
+
+/**
+ * Open (or reuse) the host's shadow root and fill it with copies of the block's
+ * stylesheets plus a fresh mount point. The originals are taken out of
+ * document.head so the block's global CSS no longer reaches the host page,
+ * unless an instance mounted without isolation still relies on them.
+ */
+export function attachShadowMountPoint(host: HTMLElement, styles: HTMLElement[]): { mountPoint: HTMLElement; shadowRoot: ShadowRoot } {
+  const shadowRoot = host.shadowRoot ?? host.attachShadow({ mode: 'open' });
+  const mountPoint = document.createElement('div');
+  mountPoint.className = 'mext-shadow-mount';
+  mountPoint.style.width = '100%';
+  mountPoint.style.height = '100%';
+
+  shadowRoot.replaceChildren(...styles.map(style => style.cloneNode(true) as HTMLElement), mountPoint);
+  styles.forEach(style => {
+    isolatedStyles.add(style);
+    if (!documentStyleHolders.get(style)) {
+      style.remove();
+    }
+  });
+
+  return { mountPoint, shadowRoot };
+}
+
+/**
+ * Move stylesheets a block injected while mounting into its shadow root
+ */
+export function adoptStyles(shadowRoot: ShadowRoot, styles: HTMLElement[]): void {
+  if (styles.length > 0) {
+    shadowRoot.prepend(...styles);
+  }
+}
+
+/**
+ * Put a block's stylesheets back into document.head for a non-isolated mount,
+ * in case a shadow-isolated instance of the same block took them out, and keep
+ * them there until the returned function is called. The last instance to let go
+ * takes them out again if an isolated instance wanted them out.
+ */
+export function retainDocumentStyles(styles: HTMLElement[]): () => void {
+  styles.forEach(style => {
+    documentStyleHolders.set(style, (documentStyleHolders.get(style) ?? 0) + 1);
+    if (!style.isConnected) {
+      document.head.appendChild(style);
+    }
+  });
+
+  let released = false;
+  return () => {
+    if (released) return;
+    released = true;
+    styles.forEach(style => {
+      const holders = Math.max((documentStyleHolders.get(style) ?? 0) - 1, 0);
+      documentStyleHolders.set(style, holders);
+      if (holders === 0 && isolatedStyles.has(style)) {
+        style.remove();
+      }
+    });
+  };
+}
@@ -0,0 +1,29 @@
+import type { BlockIsolation } from './federationLoader';
+
+/**
+ * Isolation per author for AuthorBlock. Either a map with a fallback for
+ * unlisted authors, or a function for full control.
+ */
+export type TrustPolicy =
+  | { default?: BlockIsolation; authors?: { [author: string]: BlockIsolation } }
+  | ((author: string) => BlockIsolation | undefined);
+
+let trustPolicy: TrustPolicy = {};
+
+/**
+ * Replace the trust policy; call without arguments to trust every author again
+ */
+export function setTrustPolicy(policy?: TrustPolicy): void {
+  trustPolicy = policy || {};
+}
+
+/**
+ * Isolation mode the trust policy selects for an author ('none' if unspecified)
+ */
+export function getAuthorIsolation(author: string): BlockIsolation {
+  if (typeof trustPolicy === 'function') {
+    return trustPolicy(author) || 'none';
+  }
+
+  return trustPolicy.authors?.[author] || trustPolicy.default || 'none';
+}